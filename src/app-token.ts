@@ -0,0 +1,128 @@
+/* eslint-disable testing-library/no-debugging-utils */
+import { debug, setSecret } from '@actions/core';
+import { createPrivateKey, createSign, type KeyObject } from 'node:crypto';
+import { createOctokit, type OctokitOptions } from './octokit.js';
+import type { AppCredentials } from './types.js';
+
+/**
+ * How long, in seconds, the JSON Web Token of the app stays valid. GitHub
+ * rejects tokens that are valid for longer than ten minutes.
+ */
+const JWT_LIFETIME = 540;
+
+/**
+ * How far, in seconds, the issue time of the JSON Web Token is backdated to
+ * allow for clock drift between the runner and GitHub.
+ */
+const JWT_CLOCK_DRIFT = 60;
+
+/**
+ * Encodes a value as unpadded base64url, as JSON Web Tokens require.
+ *
+ * @param value - The value to encode.
+ * @returns The encoded value.
+ */
+function base64url(value: string | Buffer): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+/**
+ * Parses the private key of the app. Keys stored in secrets often have
+ * their line breaks escaped, so `\n` sequences are turned back into them.
+ *
+ * @param privateKey - The PEM encoded private key.
+ * @returns The parsed key.
+ * @throws {Error} If the key is not a valid PEM encoded private key.
+ */
+function parsePrivateKey(privateKey: string): KeyObject {
+  try {
+    return createPrivateKey(privateKey.replace(/\\n/g, '\n'));
+  } catch {
+    throw new Error(
+      'Invalid value for "private-key". Expected a PEM encoded private key.',
+    );
+  }
+}
+
+/**
+ * Creates the JSON Web Token that authenticates as the GitHub App itself,
+ * signed with RS256 as GitHub requires.
+ *
+ * @param appId - The ID or client ID of the app, used as the issuer.
+ * @param privateKey - The PEM encoded private key of the app.
+ * @param now - The current time in milliseconds since the epoch.
+ * @returns The signed token.
+ * @throws {Error} If the private key is invalid.
+ */
+export function createAppJwt(
+  appId: string,
+  privateKey: string,
+  now: number = Date.now(),
+): string {
+  const key = parsePrivateKey(privateKey);
+  const issuedAt = Math.floor(now / 1000) - JWT_CLOCK_DRIFT;
+  const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }));
+  const payload = base64url(
+    JSON.stringify({
+      iat: issuedAt,
+      exp: issuedAt + JWT_LIFETIME,
+      iss: appId,
+    }),
+  );
+
+  const signature = createSign('RSA-SHA256')
+    .update(`${header}.${payload}`)
+    .sign(key);
+  return `${header}.${payload}.${base64url(signature)}`;
+}
+
+/**
+ * Mints an installation token for the GitHub App, which is then used like
+ * any other GitHub token and masked in the logs. The app authenticates with a JSON Web Token to
+ * look up its installation on the repository, unless the installation ID
+ * is given, and to exchange it for a token.
+ *
+ * @param credentials - The credentials of the app.
+ * @param owner - The owner of the repository.
+ * @param repo - The name of the repository.
+ * @param options - Further options passed to {@link createOctokit}, such as
+ * the base URL.
+ * @returns A promise that resolves to the installation token.
+ * @throws {Error} If the private key is invalid, or the app is not installed
+ * on the repository.
+ */
+export async function getInstallationToken(
+  credentials: AppCredentials,
+  owner: string,
+  repo: string,
+  options: OctokitOptions = {},
+): Promise<string> {
+  const octokit = createOctokit(
+    createAppJwt(credentials.appId, credentials.privateKey),
+    {},
+    options,
+  );
+
+  let installationId = credentials.installationId;
+  if (installationId === undefined) {
+    debug(`Looking up the installation of app ${credentials.appId}.`);
+    try {
+      const { data } = await octokit.rest.apps.getRepoInstallation({
+        owner,
+        repo,
+      });
+      installationId = data.id;
+    } catch (error: unknown) {
+      throw new Error(
+        `GitHub App ${credentials.appId} is not installed on ${owner}/${repo}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  debug(`Minting a token for installation ${installationId}.`);
+  const { data } = await octokit.rest.apps.createInstallationAccessToken({
+    installation_id: installationId,
+  });
+  setSecret(data.token);
+  return data.token;
+}
@@ -0,0 +1,115 @@
+import type {
+  ActualApiCommit,
+  ActualPushEventCommit,
+  CommitIdentity,
+  CommitToLint,
+} from '../types.js';
+
+/**
+ * The fields of a commit embedded in an event payload, shared by the commits
+ * of a push event and the head commit of a merge group. Only push event
+ * commits carry a URL and the usernames of their author and committer.
+ */
+type PayloadCommit = Pick<ActualPushEventCommit, 'id' | 'message'> & {
+  timestamp?: string;
+  url?: string;
+  author?: PayloadIdentity;
+  committer?: PayloadIdentity;
+};
+
+/**
+ * The author or committer of a commit embedded in an event payload.
+ */
+type PayloadIdentity = {
+  name: string;
+  email: string | null;
+  username?: string;
+};
+
+/**
+ * Builds an identity from its parts.
+ *
+ * @param name - The git name of the person.
+ * @param email - The git email address of the person.
+ * @param login - The GitHub login of the person.
+ * @param type - The type of the GitHub account, such as `User` or `Bot`.
+ * @returns The identity, or `undefined` if none of its parts are known.
+ */
+function toIdentity(
+  name: string | null | undefined,
+  email: string | null | undefined,
+  login: string | null | undefined,
+  type?: string,
+): CommitIdentity | undefined {
+  if (name || email || login) {
+    return {
+      name: name ?? undefined,
+      email: email ?? undefined,
+      login: login ?? undefined,
+      type,
+    };
+  } else {
+    return undefined;
+  }
+}
+
+/**
+ * Maps a commit returned by the REST API, such as by the `compareCommits` or
+ * `pulls.listCommits` endpoints, to a commit to lint with all the metadata
+ * the API reports.
+ *
+ * @param commit - The commit as returned by the API.
+ * @returns The {@link CommitToLint} for the commit.
+ */
+export function fromApiCommit(commit: ActualApiCommit): CommitToLint {
+  const { author, committer, verification } = commit.commit;
+  return {
+    message: commit.commit.message,
+    hash: commit.sha,
+    author: toIdentity(
+      author?.name,
+      author?.email,
+      commit.author?.login,
+      commit.author?.type,
+    ),
+    committer: toIdentity(
+      committer?.name,
+      committer?.email,
+      commit.committer?.login,
+      commit.committer?.type,
+    ),
+    parentCount: commit.parents?.length,
+    timestamp: author?.date,
+    verification: verification
+      ? { verified: verification.verified, reason: verification.reason }
+      : undefined,
+    htmlUrl: commit.html_url,
+  };
+}
+
+/**
+ * Maps a commit embedded in an event payload to a commit to lint. Payloads
+ * report neither the parents of a commit nor the verification of its
+ * signature, so those are left out.
+ *
+ * @param commit - The commit as found in the event payload.
+ * @returns The {@link CommitToLint} for the commit.
+ */
+export function fromPayloadCommit(commit: PayloadCommit): CommitToLint {
+  return {
+    message: commit.message,
+    hash: commit.id || 'unknown_sha',
+    author: toIdentity(
+      commit.author?.name,
+      commit.author?.email,
+      commit.author?.username,
+    ),
+    committer: toIdentity(
+      commit.committer?.name,
+      commit.committer?.email,
+      commit.committer?.username,
+    ),
+    timestamp: commit.timestamp,
+    htmlUrl: commit.url,
+  };
+}
@@ -0,0 +1,133 @@
+/* eslint-disable testing-library/no-debugging-utils */
+import type { CommitDepth, CommitToLint, OctokitInstance } from '../types.js';
+import { debug } from '@actions/core';
+import { fromApiCommit } from './commit.js';
+import { hasEnoughCommits, limitCommits } from './depth.js';
+
+/**
+ * The number of commits requested per page from the compare API. This is the
+ * maximum page size that GitHub allows.
+ */
+const COMPARE_PAGE_SIZE = 100;
+
+/**
+ * The outcome of comparing two refs: how the head relates to the base, such
+ * as `ahead` when it only adds commits or `diverged` when history was
+ * rewritten, and the commits reachable from the head but not the base, of
+ * which there are `total`.
+ */
+export interface Comparison {
+  status: 'diverged' | 'ahead' | 'behind' | 'identical';
+  commits: CommitToLint[];
+  total: number;
+}
+
+/**
+ * Lists every commit between two refs using the `compareCommits` API, walking
+ * through all the pages of the comparison rather than trusting the first one.
+ * Pages are requested until the number of commits collected reaches the
+ * `total_commits` reported by the API, so a truncated page does not cause
+ * commits to be silently dropped. Given a depth, only the pages holding the
+ * commits to keep are requested.
+ *
+ * @param octokit - The Octokit instance used for the API calls.
+ * @param owner - The owner of the repository.
+ * @param repo - The name of the repository.
+ * @param base - The base ref or SHA of the comparison.
+ * @param head - The head ref or SHA of the comparison.
+ * @param depth - The maximum number of commits to list. Optional.
+ * @returns A promise that resolves to an array of {@link CommitToLint}
+ * objects, ordered as returned by the API.
+ * @throws If the API stops returning commits before `total_commits` of them
+ * have been collected, or the comparison has more commits than the depth
+ * allows and its mode is `fail`.
+ */
+export async function listComparedCommits(
+  octokit: OctokitInstance,
+  owner: string,
+  repo: string,
+  base: string,
+  head: string,
+  depth?: CommitDepth,
+): Promise<CommitToLint[]> {
+  const { commits, total } = await compareRefs(
+    octokit,
+    owner,
+    repo,
+    base,
+    head,
+    depth,
+  );
+  return limitCommits(commits, depth, total);
+}
+
+/**
+ * Compares two refs using the `compareCommits` API, collecting every commit
+ * of the comparison as {@link listComparedCommits} does, along with the
+ * status of the head relative to the base. Given a depth, paging stops once
+ * the commits to keep were collected, but the commits are not limited to it.
+ *
+ * @param octokit - The Octokit instance used for the API calls.
+ * @param owner - The owner of the repository.
+ * @param repo - The name of the repository.
+ * @param base - The base ref or SHA of the comparison.
+ * @param head - The head ref or SHA of the comparison.
+ * @param depth - The maximum number of commits to collect. Optional.
+ * @returns A promise that resolves to the {@link Comparison} of the refs.
+ * @throws If the API stops returning commits before `total_commits` of them
+ * have been collected.
+ */
+export async function compareRefs(
+  octokit: OctokitInstance,
+  owner: string,
+  repo: string,
+  base: string,
+  head: string,
+  depth?: CommitDepth,
+): Promise<Comparison> {
+  const commits: CommitToLint[] = [];
+  let offset = 0;
+
+  for (let page = 1; ; page++) {
+    const { data: comparison } = await octokit.rest.repos.compareCommits({
+      owner,
+      repo,
+      base,
+      head,
+      per_page: COMPARE_PAGE_SIZE,
+      page,
+    });
+    debug(
+      `Compare page ${page} for ${base}...${head} returned ${comparison.commits.length} of ${comparison.total_commits} commits.`,
+    );
+
+    commits.push(...comparison.commits.map(fromApiCommit));
+
+    const total = comparison.total_commits;
+    if (
+      !(total > offset + commits.length) ||
+      hasEnoughCommits(commits.length, depth)
+    ) {
+      return { status: comparison.status, commits, total };
+    } else if (
+      page === 1 &&
+      depth?.mode === 'newest' &&
+      total - depth.count >= COMPARE_PAGE_SIZE * 2
+    ) {
+      page = Math.floor((total - depth.count) / COMPARE_PAGE_SIZE);
+      offset = page * COMPARE_PAGE_SIZE;
+      commits.length = 0;
+      debug(
+        `Skipping to page ${page + 1} of the comparison for the newest ${depth.count} commits.`,
+      );
+    } else if (comparison.commits.length === 0) {
+      throw new Error(
+        `The compare API returned only ${offset + commits.length} of ${total} commits for ${base}...${head}.`,
+      );
+    } else {
+      debug(
+        `Comparison is truncated at ${offset + commits.length} of ${total} commits; fetching the next page.`,
+      );
+    }
+  }
+}
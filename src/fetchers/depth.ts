@@ -0,0 +1,58 @@
+/* eslint-disable testing-library/no-debugging-utils */
+import type { CommitDepth, CommitToLint } from '../types.js';
+import { debug } from '@actions/core';
+
+/**
+ * Determines whether enough commits were fetched to apply the depth, so
+ * that fetchers can stop paging. Keeping the oldest commits needs no more
+ * than the depth, and failing needs just one more to know the depth is
+ * exceeded. Keeping the newest commits always needs the last page.
+ *
+ * @param fetched - The number of commits fetched so far, oldest first.
+ * @param depth - The maximum number of commits to fetch, if any.
+ * @returns `true` if no further commits need to be fetched.
+ */
+export function hasEnoughCommits(
+  fetched: number,
+  depth: CommitDepth | undefined,
+): boolean {
+  if (depth?.mode === 'oldest') {
+    return fetched >= depth.count;
+  } else if (depth?.mode === 'fail') {
+    return fetched > depth.count;
+  } else {
+    return false;
+  }
+}
+
+/**
+ * Limits the commits of an event to the depth, keeping either the oldest or
+ * the newest of them.
+ *
+ * @param commits - The commits fetched for the event, oldest first. When
+ * keeping the newest commits, these may be only the last of them.
+ * @param depth - The maximum number of commits to keep, if any.
+ * @param total - The number of commits of the event, which defaults to the
+ * number of commits fetched.
+ * @returns The commits to lint, oldest first.
+ * @throws {Error} If the event has more commits than the depth and its mode
+ * is `fail`.
+ */
+export function limitCommits(
+  commits: CommitToLint[],
+  depth: CommitDepth | undefined,
+  total: number = commits.length,
+): CommitToLint[] {
+  if (!depth || total <= depth.count) {
+    return commits;
+  } else if (depth.mode === 'fail') {
+    throw new Error(
+      `Found more than ${depth.count} commits, the maximum set by "commit-depth".`,
+    );
+  } else {
+    debug(`Keeping the ${depth.mode} ${depth.count} of ${total} commits.`);
+    return depth.mode === 'newest'
+      ? commits.slice(-depth.count)
+      : commits.slice(0, depth.count);
+  }
+}
@@ -0,0 +1,166 @@
+/* eslint-disable testing-library/no-debugging-utils */
+import type {
+  CommitDepth,
+  CommitToLint,
+  ICommitFetcher,
+  OctokitInstance,
+  PullRequestEventPayloadSubset,
+} from '../types.js';
+import { debug, warning } from '@actions/core';
+import { createOctokit } from '../octokit.js';
+import {
+  COMMIT_FIELDS,
+  fromGraphQLCommit,
+  GRAPHQL_PAGE_SIZE,
+  type GraphQLCommit,
+  type GraphQLConnection,
+} from './graphql.js';
+import { hasEnoughCommits, limitCommits } from './depth.js';
+import { listComparedCommits } from './compare.js';
+import { PULL_REQUEST_COMMIT_LIMIT } from './pull-request.js';
+
+/**
+ * The query for a page of the commits of a pull request.
+ */
+const PULL_REQUEST_COMMITS_QUERY = `
+  query ($owner: String!, $repo: String!, $number: Int!, $first: Int!, $cursor: String) {
+    repository(owner: $owner, name: $repo) {
+      pullRequest(number: $number) {
+        commits(first: $first, after: $cursor) {
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+          nodes {
+            commit {
+              ...CommitFields
+            }
+          }
+        }
+      }
+    }
+  }
+  ${COMMIT_FIELDS}
+`;
+
+/**
+ * The shape of the response to {@link PULL_REQUEST_COMMITS_QUERY}.
+ */
+interface PullRequestCommitsResponse {
+  repository: {
+    pullRequest: {
+      commits: GraphQLConnection<{ commit: GraphQLCommit }>;
+    } | null;
+  };
+}
+
+/**
+ * Implements {@link ICommitFetcher} to retrieve the commits of a pull request
+ * through the GraphQL API. Unlike the REST endpoints, which return whole
+ * commit objects with their files and stats, the query asks only for the
+ * fields that are linted or reported, and pages through the commits with
+ * cursors, which uses far less of the rate limit on large pull requests.
+ * As through REST, at most 250 commits of a pull request are returned, so
+ * larger pull requests are resolved by comparing the base and head SHAs.
+ */
+export class GraphQLPullRequestCommitFetcher
+  implements ICommitFetcher<PullRequestEventPayloadSubset>
+{
+  /**
+   * Notes about the fetch, such as a fallback to the compare API, that are
+   * surfaced in the job summary.
+   */
+  public readonly notices: string[] = [];
+
+  /**
+   * Fetches all commits for a given pull request.
+   *
+   * @param token - The GitHub token for API authentication.
+   * @param owner - The owner of the repository where the pull request exists.
+   * @param repo - The name of the repository.
+   * @param payload - A subset of the GitHub `PullRequestEvent` payload.
+   * @param depth - The maximum number of commits to fetch, which stops
+   * paging once enough commits were fetched. Optional.
+   * @returns A promise that resolves to an array of {@link CommitToLint}
+   * objects.
+   * @throws If the GraphQL query fails, the pull request does not exist, or
+   * it has more commits than the depth allows and its mode is `fail`.
+   */
+  public async fetchCommits(
+    token: string | OctokitInstance,
+    owner: string,
+    repo: string,
+    payload: PullRequestEventPayloadSubset,
+    depth?: CommitDepth,
+  ): Promise<CommitToLint[]> {
+    if (!payload.number) {
+      warning(
+        'Pull request number is required for GraphQLPullRequestCommitFetcher but was not provided.',
+      );
+      return [];
+    }
+
+    const octokit = typeof token === 'string' ? createOctokit(token) : token;
+    const commits: CommitToLint[] = [];
+
+    for (let cursor: string | null = null; ; ) {
+      const response: PullRequestCommitsResponse = await octokit.graphql(
+        PULL_REQUEST_COMMITS_QUERY,
+        {
+          owner,
+          repo,
+          number: payload.number,
+          first: GRAPHQL_PAGE_SIZE,
+          cursor,
+        },
+      );
+
+      const pullRequest = response.repository.pullRequest;
+      if (pullRequest === null) {
+        throw new Error(
+          `Pull request #${payload.number} was not found in ${owner}/${repo}.`,
+        );
+      }
+
+      const { pageInfo, nodes } = pullRequest.commits;
+      commits.push(...nodes.map(({ commit }) => fromGraphQLCommit(commit)));
+      debug(
+        `GraphQL page for pull request #${payload.number} returned ${nodes.length} commits.`,
+      );
+
+      if (hasEnoughCommits(commits.length, depth)) {
+        return limitCommits(commits, depth, payload.pull_request?.commits);
+      } else if (!pageInfo.hasNextPage) {
+        break;
+      } else {
+        cursor = pageInfo.endCursor;
+      }
+    }
+
+    const total = payload.pull_request?.commits;
+    if (
+      commits.length < PULL_REQUEST_COMMIT_LIMIT ||
+      (total ?? Infinity) <= commits.length
+    ) {
+      return limitCommits(commits, depth, total);
+    }
+
+    const { base, head } =
+      payload.pull_request ??
+      (
+        await octokit.rest.pulls.get({
+          owner,
+          repo,
+          pull_number: payload.number,
+        })
+      ).data;
+
+    warning(
+      `Pull request #${payload.number} has more than ${PULL_REQUEST_COMMIT_LIMIT} commits; comparing ${base.sha}...${head.sha} instead.`,
+    );
+    this.notices.push(
+      `Pull request #${payload.number} has more than ${PULL_REQUEST_COMMIT_LIMIT} commits, so its commits were fetched by comparing the base and head SHAs instead.`,
+    );
+    return listComparedCommits(octokit, owner, repo, base.sha, head.sha, depth);
+  }
+}
@@ -0,0 +1,138 @@
+/* eslint-disable testing-library/no-debugging-utils */
+import type {
+  CommitDepth,
+  CommitRange,
+  CommitToLint,
+  ICommitFetcher,
+  OctokitInstance,
+} from '../types.js';
+import { debug } from '@actions/core';
+import { createOctokit } from '../octokit.js';
+import { listComparedCommits } from './compare.js';
+import {
+  COMMIT_FIELDS,
+  fromGraphQLCommit,
+  GRAPHQL_PAGE_SIZE,
+  type GraphQLCommit,
+  type GraphQLConnection,
+} from './graphql.js';
+import { hasEnoughCommits, limitCommits } from './depth.js';
+
+/**
+ * The query for a page of the commits of the comparison of two refs.
+ */
+const COMPARE_COMMITS_QUERY = `
+  query ($owner: String!, $repo: String!, $base: String!, $head: String!, $first: Int!, $cursor: String) {
+    repository(owner: $owner, name: $repo) {
+      ref(qualifiedName: $base) {
+        compare(headRef: $head) {
+          commits(first: $first, after: $cursor) {
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+            nodes {
+              ...CommitFields
+            }
+          }
+        }
+      }
+    }
+  }
+  ${COMMIT_FIELDS}
+`;
+
+/**
+ * The shape of the response to {@link COMPARE_COMMITS_QUERY}.
+ */
+interface CompareCommitsResponse {
+  repository: {
+    ref: {
+      compare: {
+        commits: GraphQLConnection<GraphQLCommit>;
+      };
+    } | null;
+  };
+}
+
+/**
+ * Implements {@link ICommitFetcher} to retrieve the commits of an explicit
+ * range through the GraphQL API, asking only for the fields that are linted
+ * or reported. GraphQL can only compare refs by name, so a range that starts
+ * at a SHA rather than a branch or tag is fetched through the REST compare
+ * API instead.
+ */
+export class GraphQLRangeCommitFetcher implements ICommitFetcher {
+  /**
+   * The range of commits to fetch.
+   * @private
+   */
+  private readonly range: CommitRange;
+
+  /**
+   * Constructs a new GraphQLRangeCommitFetcher instance.
+   *
+   * @param range The range of commits to fetch.
+   */
+  constructor(range: CommitRange) {
+    this.range = range;
+  }
+
+  /**
+   * Fetches the commits of the range via the comparison of its refs.
+   *
+   * @param token - The GitHub token for API authentication.
+   * @param owner - The owner of the repository.
+   * @param repo - The name of the repository.
+   * @param _payload - Unused, as the range is given explicitly.
+   * @param depth - The maximum number of commits to fetch, which stops
+   * paging once enough commits were fetched. Optional.
+   * @returns A promise that resolves to an array of {@link CommitToLint}
+   * objects.
+   * @throws If the GraphQL query or the REST compare API call fails, or the
+   * range has more commits than the depth allows and its mode is `fail`.
+   */
+  public async fetchCommits(
+    token: string | OctokitInstance,
+    owner: string,
+    repo: string,
+    _payload?: unknown,
+    depth?: CommitDepth,
+  ): Promise<CommitToLint[]> {
+    const octokit = typeof token === 'string' ? createOctokit(token) : token;
+    const { from, to } = this.range;
+    debug(`Fetching commits via GraphQL between ${from} and ${to}.`);
+    const commits: CommitToLint[] = [];
+
+    for (let cursor: string | null = null; ; ) {
+      const response: CompareCommitsResponse = await octokit.graphql(
+        COMPARE_COMMITS_QUERY,
+        {
+          owner,
+          repo,
+          base: from,
+          head: to,
+          first: GRAPHQL_PAGE_SIZE,
+          cursor,
+        },
+      );
+
+      const ref = response.repository.ref;
+      if (ref === null) {
+        debug(
+          `${from} is not a branch or tag; fetching commits via compare API instead.`,
+        );
+        return listComparedCommits(octokit, owner, repo, from, to, depth);
+      }
+
+      const { pageInfo, nodes } = ref.compare.commits;
+      commits.push(...nodes.map(fromGraphQLCommit));
+
+      if (!pageInfo.hasNextPage || hasEnoughCommits(commits.length, depth)) {
+        return limitCommits(commits, depth);
+      } else {
+        cursor = pageInfo.endCursor;
+      }
+    }
+  }
+}
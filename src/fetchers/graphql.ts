@@ -0,0 +1,127 @@
+import type { CommitIdentity, CommitToLint } from '../types.js';
+
+/**
+ * The number of commits requested per page of a GraphQL connection. This is
+ * the maximum page size that GitHub allows.
+ */
+export const GRAPHQL_PAGE_SIZE = 100;
+
+/**
+ * The GraphQL fragment selecting the fields of a commit that are linted or
+ * reported, and nothing else, so that queries stay cheap.
+ */
+export const COMMIT_FIELDS = `
+  fragment CommitFields on Commit {
+    oid
+    message
+    url
+    author {
+      name
+      email
+      date
+      user {
+        login
+      }
+    }
+    committer {
+      name
+      email
+      user {
+        login
+      }
+    }
+    parents {
+      totalCount
+    }
+    signature {
+      isValid
+      state
+    }
+  }
+`;
+
+/**
+ * The author or committer of a commit, as selected by {@link COMMIT_FIELDS}.
+ */
+interface GraphQLGitActor {
+  name: string | null;
+  email: string | null;
+  date?: string | null;
+  user: { login: string } | null;
+}
+
+/**
+ * A commit as selected by {@link COMMIT_FIELDS}.
+ */
+export interface GraphQLCommit {
+  oid: string;
+  message: string;
+  url: string;
+  author: GraphQLGitActor | null;
+  committer: GraphQLGitActor | null;
+  parents: { totalCount: number };
+  signature: { isValid: boolean; state: string } | null;
+}
+
+/**
+ * A page of a GraphQL connection, along with the cursor of the next page.
+ */
+export interface GraphQLConnection<TNode> {
+  pageInfo: { hasNextPage: boolean; endCursor: string | null };
+  nodes: TNode[];
+}
+
+/**
+ * The GraphQL signature states whose names differ from the verification
+ * reasons reported by the REST API.
+ */
+const SIGNATURE_REASONS: Record<string, string> = {
+  MALFORMED_SIG: 'malformed_signature',
+  UNKNOWN_SIG_TYPE: 'unknown_signature_type',
+};
+
+/**
+ * Maps the author or committer of a commit to an identity.
+ *
+ * @param actor - The git actor as returned by the GraphQL API.
+ * @returns The identity, or `undefined` if nothing is known about it.
+ */
+function toIdentity(actor: GraphQLGitActor | null): CommitIdentity | undefined {
+  if (actor && (actor.name || actor.email || actor.user)) {
+    return {
+      name: actor.name ?? undefined,
+      email: actor.email ?? undefined,
+      login: actor.user?.login,
+    };
+  } else {
+    return undefined;
+  }
+}
+
+/**
+ * Maps a commit returned by the GraphQL API to a commit to lint, in the same
+ * shape as the commits returned by the REST API. Verification states are
+ * translated to the reasons the REST API uses.
+ *
+ * @param commit - The commit as returned by the GraphQL API.
+ * @returns The {@link CommitToLint} for the commit.
+ */
+export function fromGraphQLCommit(commit: GraphQLCommit): CommitToLint {
+  return {
+    message: commit.message,
+    hash: commit.oid,
+    author: toIdentity(commit.author),
+    committer: toIdentity(commit.committer),
+    parentCount: commit.parents.totalCount,
+    timestamp: commit.author?.date ?? undefined,
+    verification: commit.signature
+      ? {
+          verified: commit.signature.isValid,
+          reason:
+            SIGNATURE_REASONS[commit.signature.state] ??
+            commit.signature.state.toLowerCase(),
+        }
+      : { verified: false, reason: 'unsigned' },
+    htmlUrl: commit.url,
+  };
+}
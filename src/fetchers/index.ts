@@ -1,26 +1,138 @@
 import { MergeGroupCommitFetcher } from './merge-group.js';
 import { PullRequestCommitFetcher } from './pull-request.js';
 import { PushEventCommitFetcher } from './push-event.js';
+import { LocalGitCommitFetcher } from './local-git.js';
+import { RangeCommitFetcher } from './range.js';
+import { PullRequestTitleCommitFetcher } from './pull-request-title.js';
+import { SquashMessageCommitFetcher } from './squash-message.js';
+import { TagCommitFetcher } from './tag.js';
+import { WorkflowRunCommitFetcher } from './workflow-run.js';
+import { GraphQLPullRequestCommitFetcher } from './graphql-pull-request.js';
+import { GraphQLRangeCommitFetcher } from './graphql-range.js';
 import { info } from '@actions/core';
-import { ICommitFetcher } from '../types.js';
+import {
+  CommitFetcherOptions,
+  ICommitFetcher,
+  PullRequestEventPayloadSubset,
+} from '../types.js';
+
+/**
+ * Wraps the fetcher of the commits of a pull request so that the predicted
+ * squash commit message is linted too, or instead, as configured by the
+ * options.
+ *
+ * @param commitFetcher - The fetcher of the commits of the pull request.
+ * @param options - The options that configure the squash message mode.
+ * @returns The fetcher to use for the pull request event.
+ */
+function withSquashMessage(
+  commitFetcher: ICommitFetcher<PullRequestEventPayloadSubset>,
+  options: CommitFetcherOptions,
+): ICommitFetcher<PullRequestEventPayloadSubset> {
+  switch (options.squashMessage) {
+    case 'include':
+      return new SquashMessageCommitFetcher(commitFetcher, true);
+    case 'only':
+      return new SquashMessageCommitFetcher(commitFetcher, false);
+    default:
+      return commitFetcher;
+  }
+}
+
+/**
+ * Wraps the fetcher of the commits of a pull request so that the pull request
+ * title is linted too, or instead, as configured by the options.
+ *
+ * @param commitFetcher - The fetcher of the commits of the pull request.
+ * @param options - The options that configure the pull request title mode.
+ * @returns The fetcher to use for the pull request event.
+ */
+function withPullRequestTitle(
+  commitFetcher: ICommitFetcher<PullRequestEventPayloadSubset>,
+  options: CommitFetcherOptions,
+): ICommitFetcher<PullRequestEventPayloadSubset> {
+  switch (options.pullRequestTitle) {
+    case 'include':
+      return new PullRequestTitleCommitFetcher(
+        options.pullRequestBody ?? false,
+        commitFetcher,
+      );
+    case 'only':
+      return new PullRequestTitleCommitFetcher(
+        options.pullRequestBody ?? false,
+      );
+    default:
+      return commitFetcher;
+  }
+}
 
 /**
  * Selects and returns the appropriate commit fetcher based on the event name.
+ * An explicit range in the options takes precedence over the event, so any
+ * event can be linted when one is given. Pull requests behind a
+ * `workflow_run` event are always read from the API, as the commits of a fork
+ * are not part of the checkout of the base repository. Incremental linting
+ * is disabled when the squash commit message is linted, since that message is
+ * built from every commit of the pull request.
  *
  * @param eventName - The name of the current GitHub event.
+ * @param options - Options that influence the selection, such as whether the
+ * commits are read from the API or from the local git repository.
  * @returns An instance of {@link ICommitFetcher} or `null`.
  */
 export default function getCommitFetcher(
   eventName: string | undefined,
+  options: CommitFetcherOptions = {},
 ): ICommitFetcher | null {
+  const local = options.source === 'git';
+  const graphql = options.source === 'graphql';
+
+  if (options.range) {
+    return local
+      ? new LocalGitCommitFetcher(options.workingDirectory, options.range)
+      : graphql
+        ? new GraphQLRangeCommitFetcher(options.range)
+        : new RangeCommitFetcher(options.range);
+  }
+
   switch (eventName) {
     case 'merge_group':
-      return new MergeGroupCommitFetcher();
+      return local
+        ? new LocalGitCommitFetcher(options.workingDirectory)
+        : new MergeGroupCommitFetcher();
     case 'pull_request':
     case 'pull_request_target':
-      return new PullRequestCommitFetcher();
+      return withPullRequestTitle(
+        withSquashMessage(
+          local
+            ? new LocalGitCommitFetcher(options.workingDirectory)
+            : graphql
+              ? new GraphQLPullRequestCommitFetcher()
+              : new PullRequestCommitFetcher(
+                  (options.incremental ?? false) &&
+                    (options.squashMessage ?? 'off') === 'off',
+                ),
+          options,
+        ),
+        options,
+      );
     case 'push':
-      return new PushEventCommitFetcher();
+      return local
+        ? new LocalGitCommitFetcher(
+            options.workingDirectory,
+            undefined,
+            options.baseRef,
+          )
+        : new PushEventCommitFetcher(options.tagConfigPath, options.baseRef);
+    case 'create':
+      return new TagCommitFetcher(options.tagConfigPath);
+    case 'workflow_run':
+      return new WorkflowRunCommitFetcher(
+        withPullRequestTitle(
+          withSquashMessage(new PullRequestCommitFetcher(), options),
+          options,
+        ),
+      );
     default:
       info(`No specific commit fetcher for event: ${eventName}.`);
       return null;
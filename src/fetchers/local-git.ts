@@ -0,0 +1,290 @@
+/* eslint-disable testing-library/no-debugging-utils */
+import { execFileSync } from 'node:child_process';
+import type {
+  ActualPushEventCommit,
+  CommitDepth,
+  CommitRange,
+  CommitToLint,
+  ICommitFetcher,
+  LocalGitEventPayloadSubset,
+  OctokitInstance,
+} from '../types.js';
+import { debug, warning } from '@actions/core';
+import { fromPayloadCommit } from './commit.js';
+import { limitCommits } from './depth.js';
+
+/**
+ * The SHA GitHub uses as the `before` of a push that creates a new ref.
+ */
+const NULL_SHA = /^0+$/;
+
+/**
+ * The separator placed between commits in the `git log` output, written by
+ * the `%x1e` placeholder of the format.
+ */
+const RECORD_SEPARATOR = '\x1e';
+
+/**
+ * The separator placed between the fields of a commit in the `git log`
+ * output, written by the `%x00` placeholder of the format.
+ */
+const FIELD_SEPARATOR = '\x00';
+
+/**
+ * The format of a commit in the `git log` output: the hash, the parents, the
+ * name, email and date of the author, the name and email of the committer,
+ * and the message.
+ */
+const LOG_FORMAT = '%H%x00%P%x00%an%x00%ae%x00%aI%x00%cn%x00%ce%x00%B%x1e';
+
+/**
+ * Implements {@link ICommitFetcher} to read commits straight from the git
+ * repository checked out in the workspace, without calling the GitHub API.
+ * The range of commits is derived from the event payload: the base and head
+ * SHAs of a pull request or merge group, or the before and after SHAs of a
+ * push, unless an explicit range is given. A push that creates a branch is
+ * read from the base ref, the default branch unless told otherwise, so only
+ * the commits new to the branch are linted. It requires a checkout with
+ * enough history to contain that range, such as `actions/checkout` with
+ * `fetch-depth: 0`.
+ */
+export class LocalGitCommitFetcher
+  implements ICommitFetcher<LocalGitEventPayloadSubset>
+{
+  /**
+   * The directory of the git repository in which `git log` is run.
+   * @private
+   */
+  private readonly workingDirectory: string;
+
+  /**
+   * An explicit range of commits to log, which takes precedence over the
+   * range derived from the event payload.
+   * @private
+   */
+  private readonly range: CommitRange | undefined;
+
+  /**
+   * The ref that pushes creating a new branch are read from, or `undefined`
+   * to use the default branch of the repository.
+   * @private
+   */
+  private readonly baseRef: string | undefined;
+
+  /**
+   * Constructs a new LocalGitCommitFetcher instance.
+   *
+   * @param workingDirectory The directory of the git repository in which
+   * `git log` is run. Defaults to the current working directory.
+   * @param range An optional, explicit range of commits to log instead of the
+   * range derived from the event payload.
+   * @param baseRef An optional ref that new branches are read from instead
+   * of the default branch.
+   */
+  constructor(
+    workingDirectory: string = process.cwd(),
+    range?: CommitRange,
+    baseRef?: string,
+  ) {
+    this.workingDirectory = workingDirectory;
+    this.range = range;
+    this.baseRef = baseRef;
+  }
+
+  /**
+   * Fetches the commits of the event from the local git repository.
+   *
+   * @param _token - Unused, as no API calls are made.
+   * @param _owner - Unused, as no API calls are made.
+   * @param _repo - Unused, as no API calls are made.
+   * @param eventPayloadSubset - A subset of the payload of a `push`,
+   * `pull_request` or `merge_group` event. Ignored if an explicit range was
+   * given.
+   * @param depth - The maximum number of commits to read. Optional.
+   * @returns A promise that resolves to an array of {@link CommitToLint}
+   * objects, oldest first.
+   * @throws If `git log` fails, for example because the range is not present
+   * in a shallow checkout, or the range has more commits than the depth
+   * allows and its mode is `fail`.
+   */
+  public async fetchCommits(
+    _token: string | OctokitInstance,
+    _owner: string,
+    _repo: string,
+    eventPayloadSubset: LocalGitEventPayloadSubset,
+    depth?: CommitDepth,
+  ): Promise<CommitToLint[]> {
+    const {
+      merge_group: mergeGroup,
+      pull_request: pullRequest,
+      before,
+      after,
+      commits: payloadCommits,
+    } = eventPayloadSubset;
+
+    if (this.range) {
+      return this.log(`${this.range.from}..${this.range.to}`, depth);
+    } else if (mergeGroup?.base_sha && mergeGroup?.head_sha) {
+      return this.log(`${mergeGroup.base_sha}..${mergeGroup.head_sha}`, depth);
+    } else if (pullRequest?.base.sha && pullRequest?.head.sha) {
+      return this.log(
+        `${pullRequest.base.sha}..${pullRequest.head.sha}`,
+        depth,
+      );
+    } else if (before && after && before !== after && !NULL_SHA.test(before)) {
+      return this.log(`${before}..${after}`, depth);
+    }
+
+    const baseRef =
+      before && after && NULL_SHA.test(before)
+        ? this.resolveBaseRef(eventPayloadSubset)
+        : null;
+    if (baseRef !== null) {
+      debug(`New branch pushed; reading the commits since ${baseRef}.`);
+      return this.log(`${baseRef}..${after}`, depth);
+    } else if (payloadCommits?.length) {
+      debug(
+        `Using ${payloadCommits.length} commits from payload as no git range could be derived.`,
+      );
+      return limitCommits(
+        (payloadCommits as ActualPushEventCommit[]).map(fromPayloadCommit),
+        depth,
+      );
+    } else {
+      warning('Could not derive a range of commits from the event payload.');
+      return [];
+    }
+  }
+
+  /**
+   * Resolves the ref that the commits of a new branch are read from, which
+   * must be in the checkout: the remote-tracking branch of the base ref if
+   * there is one, as the base branch itself is rarely checked out, or else
+   * the base ref as given, such as a tag or SHA.
+   *
+   * @param payload - A subset of the payload of the `push` event.
+   * @returns The ref, or `null` if the base ref is unknown, is the pushed
+   * branch itself, or is not in the checkout.
+   * @private
+   */
+  private resolveBaseRef(payload: LocalGitEventPayloadSubset): string | null {
+    const baseRef = this.baseRef ?? payload.repository?.default_branch;
+    if (baseRef === undefined) {
+      debug('No base ref is known for the new branch.');
+      return null;
+    } else if (
+      payload.ref === `refs/heads/${baseRef}` ||
+      payload.ref === baseRef
+    ) {
+      debug(`Pushed ref ${payload.ref} is the base branch itself.`);
+      return null;
+    }
+
+    const resolved = [`refs/remotes/origin/${baseRef}`, baseRef].find(
+      (candidate) => {
+        try {
+          execFileSync(
+            'git',
+            [
+              'rev-parse',
+              '--verify',
+              '--quiet',
+              '--end-of-options',
+              `${candidate}^{commit}`,
+            ],
+            { cwd: this.workingDirectory, stdio: 'ignore' },
+          );
+          return true;
+        } catch {
+          return false;
+        }
+      },
+    );
+    if (resolved === undefined) {
+      warning(
+        `Base ref ${baseRef} is not in the checkout; linting the commits of the payload instead. Make sure the checkout contains it, e.g. with "fetch-depth: 0".`,
+      );
+      return null;
+    } else {
+      return resolved;
+    }
+  }
+
+  /**
+   * Runs `git log` over a revision range and parses its output. Given a
+   * depth that keeps the newest commits, or fails when exceeded, git stops
+   * after as many commits as that needs. The range is never taken for an
+   * option, even if a ref given as an input starts with a dash.
+   *
+   * @param range - The revision range to log, such as `base..head`.
+   * @param depth - The maximum number of commits to read. Optional.
+   * @returns The commits in the range, oldest first.
+   * @throws If `git log` exits with an error, or the range has more commits
+   * than the depth allows and its mode is `fail`.
+   * @private
+   */
+  private log(range: string, depth?: CommitDepth): CommitToLint[] {
+    const maxCount =
+      depth?.mode === 'newest'
+        ? [`--max-count=${depth.count}`]
+        : depth?.mode === 'fail'
+          ? [`--max-count=${depth.count + 1}`]
+          : [];
+    debug(
+      `Reading commits via git log for ${range} in ${this.workingDirectory}`,
+    );
+    let output: string;
+    try {
+      output = execFileSync(
+        'git',
+        [
+          'log',
+          '--reverse',
+          ...maxCount,
+          `--format=${LOG_FORMAT}`,
+          '--end-of-options',
+          range,
+        ],
+        {
+          cwd: this.workingDirectory,
+          encoding: 'utf8',
+          stdio: ['ignore', 'pipe', 'pipe'],
+          maxBuffer: 64 * 1024 * 1024,
+        },
+      );
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      throw new Error(
+        `Failed to read commits via git log for ${range}: ${errorMessage}. Make sure the checkout contains the full history, e.g. with "fetch-depth: 0".`,
+      );
+    }
+
+    const commits = output
+      .split(RECORD_SEPARATOR)
+      .map((record) => record.replace(/^\n/, ''))
+      .filter((record) => record.includes(FIELD_SEPARATOR))
+      .map((record) => {
+        const [
+          hash,
+          parents,
+          authorName,
+          authorEmail,
+          timestamp,
+          committerName,
+          committerEmail,
+          message,
+        ] = record.split(FIELD_SEPARATOR);
+        return {
+          message: message.replace(/\n+$/, ''),
+          hash,
+          author: { name: authorName, email: authorEmail },
+          committer: { name: committerName, email: committerEmail },
+          parentCount: parents ? parents.split(' ').length : 0,
+          timestamp,
+        };
+      });
+
+    return limitCommits(commits, depth);
+  }
+}
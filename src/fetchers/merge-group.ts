@@ -1,56 +1,85 @@
 /* eslint-disable testing-library/no-debugging-utils */
 import type {
+  CommitDepth,
   CommitToLint,
   ICommitFetcher,
   MergeGroupEventPayloadSubset,
   OctokitInstance,
 } from '../types.js';
 import { warning, debug } from '@actions/core';
+import { createOctokit } from '../octokit.js';
+import { listComparedCommits } from './compare.js';
+import { fromPayloadCommit } from './commit.js';
 
 /**
- * Implements {@link ICommitFetcher} to retrieve the head commit from a GitHub
- * `merge_group` event. It expects a subset of the `MergeGroupEvent` payload.
+ * Implements {@link ICommitFetcher} to retrieve the commits added by a GitHub
+ * `merge_group` event. It expects a subset of the `MergeGroupEvent` payload
+ * and compares the group's `base_sha` with its `head_sha`, so every commit
+ * of every pull request stacked in the queue entry is linted.
  */
 export class MergeGroupCommitFetcher
   implements ICommitFetcher<MergeGroupEventPayloadSubset>
 {
   /**
-   * Fetches the head commit from a `merge_group` event payload subset.
+   * Fetches the commits of a `merge_group` event payload subset.
+   *
+   * When both `base_sha` and `head_sha` are present, the commits between them
+   * are listed via the `compareCommits` API. Otherwise, only the head commit
+   * from the payload is returned.
    *
    * @param token - The GitHub token for API authentication.
-   * @param _owner - The owner of the repository.
-   * @param _repo - The name of the repository.
+   * @param owner - The owner of the repository.
+   * @param repo - The name of the repository.
    * @param eventPayloadSubset - A subset of the GitHub `MergeGroupEvent`
-   * payload, containing the `merge_group` object with `head_sha` and
-   * `head_commit`.
-   * @returns A promise that resolves to an array containing a single
-   * {@link CommitToLint} object for the head commit, or an empty array if the
-   * required information is not present in the payload subset.
+   * payload, containing the `merge_group` object with `base_sha`, `head_sha`
+   * and `head_commit`.
+   * @param depth - The maximum number of commits to fetch. Optional.
+   * @returns A promise that resolves to an array of {@link CommitToLint}
+   * objects, or an empty array if the required information is not present in
+   * the payload subset.
+   * @throws If the `compareCommits` API call is attempted and fails, or the
+   * merge group has more commits than the depth allows and its mode is
+   * `fail`.
    */
   public async fetchCommits(
-    _token: string | OctokitInstance,
-    _owner: string,
-    _repo: string,
+    token: string | OctokitInstance,
+    owner: string,
+    repo: string,
     eventPayloadSubset: MergeGroupEventPayloadSubset,
+    depth?: CommitDepth,
   ): Promise<CommitToLint[]> {
-    //const _octokit = typeof token === 'string' ? getOctokit(token) : token;
     const mergeGroup = eventPayloadSubset.merge_group;
     debug(
       `Merge group event payload subset merge_group object: ${JSON.stringify(mergeGroup)}`,
     );
 
+    if (mergeGroup?.base_sha && mergeGroup?.head_sha) {
+      debug(
+        `Fetching merge group commits between ${mergeGroup.base_sha} and ${mergeGroup.head_sha}.`,
+      );
+      const octokit = typeof token === 'string' ? createOctokit(token) : token;
+      return listComparedCommits(
+        octokit,
+        owner,
+        repo,
+        mergeGroup.base_sha,
+        mergeGroup.head_sha,
+        depth,
+      );
+    }
+
     if (mergeGroup?.head_commit?.message && mergeGroup?.head_sha) {
       debug(`Found head commit for merge group: SHA ${mergeGroup.head_sha}`);
       return [
         {
-          message: mergeGroup.head_commit.message,
+          ...fromPayloadCommit(mergeGroup.head_commit),
           hash: mergeGroup.head_sha,
         },
       ];
     }
 
     warning(
-      'Merge group payload subset did not contain expected head_commit information (merge_group.head_commit.message and merge_group.head_sha).',
+      'Merge group payload subset did not contain expected commit information (merge_group.base_sha, merge_group.head_sha and merge_group.head_commit.message).',
     );
     return [];
   }
@@ -0,0 +1,151 @@
+/* eslint-disable testing-library/no-debugging-utils */
+import type {
+  CommitDepth,
+  CommitToLint,
+  ICommitFetcher,
+  OctokitInstance,
+  PullRequestEventPayloadSubset,
+} from '../types.js';
+import { debug, warning } from '@actions/core';
+import { createOctokit } from '../octokit.js';
+
+/**
+ * The fields of a pull request needed to build messages from it.
+ */
+type PullRequestDetails = Pick<
+  NonNullable<PullRequestEventPayloadSubset['pull_request']>,
+  'head' | 'title' | 'body'
+>;
+
+/**
+ * Resolves the title, body and head of a pull request. They are read from the
+ * payload, which always carries the latest values, including on `edited`
+ * events. If the payload lacks them, the pull request is fetched from the API.
+ *
+ * @param token - The GitHub token for API authentication.
+ * @param owner - The owner of the repository where the pull request exists.
+ * @param repo - The name of the repository.
+ * @param payload - A subset of the GitHub `PullRequestEvent` payload.
+ * @returns A promise that resolves to the details of the pull request.
+ */
+export async function resolvePullRequest(
+  token: string | OctokitInstance,
+  owner: string,
+  repo: string,
+  payload: PullRequestEventPayloadSubset,
+): Promise<PullRequestDetails> {
+  if (payload.pull_request?.title !== undefined) {
+    return payload.pull_request;
+  } else {
+    const octokit = typeof token === 'string' ? createOctokit(token) : token;
+    const { data } = await octokit.rest.pulls.get({
+      owner,
+      repo,
+      pull_number: payload.number,
+    });
+    return data;
+  }
+}
+
+/**
+ * Implements {@link ICommitFetcher} to lint the title of a pull request, and
+ * optionally its body, as a synthetic commit message. This suits repositories
+ * that squash-merge, where the title becomes the commit message on the base
+ * branch. The commits of the pull request itself can be included by passing
+ * the fetcher that retrieves them.
+ */
+export class PullRequestTitleCommitFetcher
+  implements ICommitFetcher<PullRequestEventPayloadSubset>
+{
+  /**
+   * Whether the body of the pull request is appended to its title.
+   * @private
+   */
+  private readonly includeBody: boolean;
+
+  /**
+   * The fetcher for the commits linted alongside the title, if any.
+   * @private
+   */
+  private readonly commitFetcher:
+    | ICommitFetcher<PullRequestEventPayloadSubset>
+    | undefined;
+
+  /**
+   * Constructs a new PullRequestTitleCommitFetcher instance.
+   *
+   * @param includeBody Whether the body of the pull request is appended to
+   * its title, separated by a blank line, as it would be in a commit message.
+   * @param commitFetcher An optional fetcher whose commits are linted
+   * alongside the title. If omitted, only the title is linted.
+   */
+  constructor(
+    includeBody: boolean,
+    commitFetcher?: ICommitFetcher<PullRequestEventPayloadSubset>,
+  ) {
+    this.includeBody = includeBody;
+    this.commitFetcher = commitFetcher;
+  }
+
+  /**
+   * Notes reported by the fetcher of the commits linted alongside the title.
+   */
+  public get notices(): ReadonlyArray<string> {
+    return this.commitFetcher?.notices ?? [];
+  }
+
+  /**
+   * Builds a synthetic commit from the pull request title and, if configured,
+   * its body, followed by the commits of the wrapped fetcher.
+   *
+   * @param token - The GitHub token for API authentication.
+   * @param owner - The owner of the repository where the pull request exists.
+   * @param repo - The name of the repository.
+   * @param payload - A subset of the GitHub `PullRequestEvent` payload.
+   * @param depth - The maximum number of commits to fetch through the
+   * wrapped fetcher, not counting the title. Optional.
+   * @returns A promise that resolves to an array of {@link CommitToLint}
+   * objects, starting with the synthetic one for the title.
+   */
+  public async fetchCommits(
+    token: string | OctokitInstance,
+    owner: string,
+    repo: string,
+    payload: PullRequestEventPayloadSubset,
+    depth?: CommitDepth,
+  ): Promise<CommitToLint[]> {
+    if (!payload.number) {
+      warning(
+        'Pull request number is required for PullRequestTitleCommitFetcher but was not provided.',
+      );
+      return [];
+    }
+
+    const pullRequest = await resolvePullRequest(token, owner, repo, payload);
+    debug(
+      `Linting title of pull request #${payload.number} (${payload.action}): ${pullRequest.title}`,
+    );
+
+    const body = pullRequest.body?.replace(/\r\n/g, '\n').trim();
+    const titleCommit: CommitToLint = {
+      message:
+        this.includeBody && body
+          ? `${pullRequest.title}\n\n${body}`
+          : (pullRequest.title ?? ''),
+      hash: pullRequest.head.sha,
+      label: `PR #${payload.number}`,
+    };
+
+    const commits = this.commitFetcher
+      ? await this.commitFetcher.fetchCommits(
+          token,
+          owner,
+          repo,
+          payload,
+          depth,
+        )
+      : [];
+
+    return [titleCommit, ...commits];
+  }
+}
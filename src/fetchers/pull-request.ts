@@ -1,19 +1,62 @@
 import type {
+  CommitDepth,
   CommitToLint,
   ICommitFetcher,
   OctokitInstance,
   PullRequestEventPayloadSubset,
 } from '../types.js';
-import { warning } from '@actions/core';
-import { getOctokit } from '@actions/github';
+import { info, warning } from '@actions/core';
+import { createOctokit } from '../octokit.js';
+import { compareRefs, listComparedCommits } from './compare.js';
+import { fromApiCommit } from './commit.js';
+import { hasEnoughCommits, limitCommits } from './depth.js';
+
+/**
+ * The maximum number of commits that the list-commits endpoint for a pull
+ * request will ever return, regardless of pagination.
+ */
+export const PULL_REQUEST_COMMIT_LIMIT = 250;
+
+/**
+ * The number of commits requested per page from the list-commits endpoint.
+ */
+const PULL_REQUEST_PAGE_SIZE = 100;
 
 /**
  * Implements {@link ICommitFetcher} to retrieve commits associated with a
  * GitHub pull request event. It primarily uses the `pullNumber` argument.
+ * Pull requests with more commits than the list-commits endpoint can return
+ * are resolved by comparing the base and head SHAs instead. In incremental
+ * mode, only the commits pushed since the previous head are fetched on
+ * `synchronize` events, leaving out those merged in from the base branch,
+ * unless the push rewrote the history of the pull request.
  */
 export class PullRequestCommitFetcher
   implements ICommitFetcher<PullRequestEventPayloadSubset>
 {
+  /**
+   * Notes about the fetch, such as a fallback to the compare API, that are
+   * surfaced in the job summary.
+   */
+  public readonly notices: string[] = [];
+
+  /**
+   * Whether only the commits pushed since the previous head are fetched on
+   * `synchronize` events.
+   * @private
+   */
+  private readonly incremental: boolean;
+
+  /**
+   * Constructs a new PullRequestCommitFetcher instance.
+   *
+   * @param incremental Whether only the commits pushed since the previous
+   * head are fetched on `synchronize` events. Defaults to `false`.
+   */
+  constructor(incremental: boolean = false) {
+    this.incremental = incremental;
+  }
+
   /**
    * Fetches all commits for a given pull request.
    *
@@ -21,16 +64,22 @@ export class PullRequestCommitFetcher
    * @param owner - The owner of the repository where the pull request exists.
    * @param repo - The name of the repository.
    * @param payload - A subset of the GitHub `PullRequestEvent` payload.
+   * @param depth - The maximum number of commits to fetch. When the number of
+   * commits of the pull request is known from the payload, only the pages
+   * holding the commits to keep are requested.
    * @returns A promise that resolves to an array of {@link CommitToLint}
    * objects.
+   * @throws If the pull request has more commits than the depth allows and
+   * its mode is `fail`.
    */
   public async fetchCommits(
     token: string | OctokitInstance,
     owner: string,
     repo: string,
     payload: PullRequestEventPayloadSubset,
+    depth?: CommitDepth,
   ): Promise<CommitToLint[]> {
-    const octokit = typeof token === 'string' ? getOctokit(token) : token;
+    const octokit = typeof token === 'string' ? createOctokit(token) : token;
     if (!payload.number) {
       warning(
         'Pull request number is required for PullRequestCommitFetcher but was not provided.',
@@ -38,18 +87,154 @@ export class PullRequestCommitFetcher
       return [];
     }
 
-    const { data: commits } = await octokit.rest.pulls.listCommits({
-      owner,
-      repo,
-      pull_number: payload.number,
-      per_page: 100,
-    });
-
-    return commits.map(
-      (commit: { commit: { message: string }; sha: string }) => ({
-        message: commit.commit.message,
-        hash: commit.sha,
-      }),
-    );
+    if (
+      this.incremental &&
+      payload.action === 'synchronize' &&
+      payload.before &&
+      payload.after
+    ) {
+      const pushed = await this.fetchPushedCommits(
+        octokit,
+        owner,
+        repo,
+        payload.before,
+        payload.after,
+        payload.pull_request?.base.sha,
+      );
+      if (pushed !== null) {
+        this.notices.push(
+          `Only the ${pushed.length} commits pushed to pull request #${payload.number} since ${payload.before.substring(0, 7)} were linted.`,
+        );
+        return limitCommits(pushed, depth);
+      }
+    }
+
+    const total = payload.pull_request?.commits;
+    const page =
+      depth?.mode === 'newest' &&
+      total !== undefined &&
+      total > depth.count &&
+      total <= PULL_REQUEST_COMMIT_LIMIT
+        ? Math.floor((total - depth.count) / PULL_REQUEST_PAGE_SIZE) + 1
+        : 1;
+
+    const commits: CommitToLint[] = [];
+    for await (const { data } of octokit.paginate.iterator(
+      octokit.rest.pulls.listCommits,
+      {
+        owner,
+        repo,
+        pull_number: payload.number,
+        per_page: PULL_REQUEST_PAGE_SIZE,
+        ...(page > 1 ? { page } : {}),
+      },
+    )) {
+      commits.push(...data.map(fromApiCommit));
+      if (hasEnoughCommits(commits.length, depth)) {
+        break;
+      }
+    }
+
+    if (
+      page > 1 ||
+      commits.length < PULL_REQUEST_COMMIT_LIMIT ||
+      (total ?? Infinity) <= commits.length ||
+      hasEnoughCommits(commits.length, depth)
+    ) {
+      return limitCommits(commits, depth, total);
+    } else {
+      const { base, head } =
+        payload.pull_request ??
+        (
+          await octokit.rest.pulls.get({
+            owner,
+            repo,
+            pull_number: payload.number,
+          })
+        ).data;
+
+      warning(
+        `Pull request #${payload.number} has more than ${PULL_REQUEST_COMMIT_LIMIT} commits; comparing ${base.sha}...${head.sha} instead.`,
+      );
+      this.notices.push(
+        `Pull request #${payload.number} has more than ${PULL_REQUEST_COMMIT_LIMIT} commits, so its commits were fetched by comparing the base and head SHAs instead.`,
+      );
+      return listComparedCommits(
+        octokit,
+        owner,
+        repo,
+        base.sha,
+        head.sha,
+        depth,
+      );
+    }
+  }
+
+  /**
+   * Fetches the commits pushed to a pull request by comparing its previous
+   * and current head. A push that merges the base branch into the pull
+   * request also brings in the commits of the base branch, so when merge
+   * commits are pushed, only those not reachable from the base are kept.
+   *
+   * @param octokit - The Octokit instance for API calls.
+   * @param owner - The owner of the repository.
+   * @param repo - The name of the repository.
+   * @param before - The head of the pull request before the push.
+   * @param after - The head of the pull request after the push.
+   * @param base - The base of the pull request, if known.
+   * @returns A promise that resolves to the pushed commits, or `null` if the
+   * push rewrote history, such as a force-push after a rebase, or pushed
+   * merge commits while the base is unknown, so that every commit must be
+   * linted.
+   * @private
+   */
+  private async fetchPushedCommits(
+    octokit: OctokitInstance,
+    owner: string,
+    repo: string,
+    before: string,
+    after: string,
+    base: string | undefined,
+  ): Promise<CommitToLint[] | null> {
+    try {
+      const comparison = await compareRefs(octokit, owner, repo, before, after);
+      const merges = comparison.commits.some(
+        ({ parentCount }) => (parentCount ?? 1) > 1,
+      );
+      if (comparison.status === 'ahead' && !merges) {
+        return comparison.commits;
+      } else if (comparison.status === 'ahead' && base !== undefined) {
+        const { commits: ownCommits } = await compareRefs(
+          octokit,
+          owner,
+          repo,
+          base,
+          after,
+        );
+        const own = new Set(ownCommits.map(({ hash }) => hash));
+        const pushed = comparison.commits.filter(({ hash }) => own.has(hash));
+        info(
+          `Merge commits were pushed; skipping ${comparison.commits.length - pushed.length} commits reachable from the base ${base}.`,
+        );
+        return pushed;
+      } else if (comparison.status === 'ahead') {
+        info(
+          'Merge commits were pushed and the base is unknown; linting every commit.',
+        );
+        return null;
+      } else {
+        info(
+          `Head moved from ${before} to ${after} by rewriting history (${comparison.status}); linting every commit.`,
+        );
+        return null;
+      }
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      info(
+        `Could not compare ${before}...${after} (${errorMessage}); linting every commit.`,
+      );
+      return null;
+    }
   }
 }
@@ -1,5 +1,6 @@
 /* eslint-disable testing-library/no-debugging-utils */
 import type {
+  CommitDepth,
   CommitToLint,
   ICommitFetcher,
   ActualPushEventCommit,
@@ -7,26 +8,74 @@ import type {
   OctokitInstance,
 } from '../types.js';
 import { debug, error as coreError } from '@actions/core';
-import { getOctokit } from '@actions/github';
+import { createOctokit } from '../octokit.js';
+import { compareRefs, type Comparison } from './compare.js';
+import { limitCommits } from './depth.js';
+import { fromPayloadCommit } from './commit.js';
+import { getTagName, TagCommitFetcher } from './tag.js';
+
+/**
+ * The SHA GitHub uses as the `before` of a push that creates a new ref.
+ */
+const NULL_SHA = /^0+$/;
 
 /**
  * Implements {@link ICommitFetcher} to retrieve commits associated with a
  * GitHub push event.
  * For pushes with distinct 'before' and 'after' SHAs, it uses the
- * `compareCommits` API. If this API call fails, an error is thrown.
- * If the conditions for an API call are not met (e.g., initial push,
- * force push to the same ref), it will use the `commits` array from the
- * event payload subset if available.
+ * `compareCommits` API, paginating through the whole comparison. If this API
+ * call fails, or the comparison cannot be fetched in full, an error is thrown.
+ * Pushes that create a new branch are compared against the merge base with
+ * the default branch of the repository, or a configured base ref, so that
+ * exactly the commits new to the branch are linted.
+ * If the conditions for an API call are not met (e.g., the first push of the
+ * base branch itself, force push to the same ref), it will use the `commits`
+ * array from the event payload subset if available.
+ * Pushes of `refs/tags/*` are handed to the {@link TagCommitFetcher}, which
+ * lints the message of the tag instead.
  */
 export class PushEventCommitFetcher
   implements ICommitFetcher<PushEventPayloadSubset>
 {
+  /**
+   * The path of the configuration that tag messages are linted against, if
+   * it differs from the default one.
+   * @private
+   */
+  private readonly tagConfigPath: string | undefined;
+
+  /**
+   * The ref that new branches are compared against, if it differs from the
+   * default branch of the repository.
+   * @private
+   */
+  private readonly baseRef: string | undefined;
+
+  /**
+   * Why the push has nothing to lint, as reported for pushes of tags.
+   */
+  public nothingToLint: string | undefined = undefined;
+
+  /**
+   * Constructs a new PushEventCommitFetcher instance.
+   *
+   * @param tagConfigPath An optional path of the configuration that the
+   * messages of pushed tags are linted against instead of the default one.
+   * @param baseRef An optional ref that new branches are compared against
+   * instead of the default branch of the repository.
+   */
+  constructor(tagConfigPath?: string, baseRef?: string) {
+    this.tagConfigPath = tagConfigPath;
+    this.baseRef = baseRef;
+  }
+
   /**
    * Fetches commits from a push event.
    *
    * It attempts to use the GitHub `compareCommits` API if distinct 'before'
-   * and 'after' SHAs are present in the `eventPayloadSubset`. If this API call
-   * is attempted and fails, an error will be thrown.
+   * and 'after' SHAs are present in the `eventPayloadSubset`, comparing new
+   * branches against their base ref instead. If this API call is attempted
+   * and fails, an error will be thrown.
    * If the API call is not applicable, it will use the `commits` array from
    * the `eventPayloadSubset`.
    *
@@ -34,58 +83,138 @@ export class PushEventCommitFetcher
    * @param owner - The owner of the repository.
    * @param repo - The name of the repository.
    * @param eventPayloadSubset - A subset of the GitHub `PushEvent` payload,
-   * containing `before`, `after`, and `commits`.
+   * containing `before`, `after`, `commits` and optionally `ref` and
+   * `repository`.
+   * @param depth - The maximum number of commits to fetch. Optional.
    * @returns A promise that resolves to an array of {@link CommitToLint}
    * objects.
-   * @throws If the `compareCommits` API call is attempted and fails.
+   * @throws If the `compareCommits` API call is attempted and fails, or does
+   * not return every commit it reports in `total_commits`, or the push has
+   * more commits than the depth allows and its mode is `fail`.
    */
   public async fetchCommits(
     token: string | OctokitInstance,
     owner: string,
     repo: string,
     eventPayloadSubset: PushEventPayloadSubset,
+    depth?: CommitDepth,
   ): Promise<CommitToLint[]> {
-    const octokit = typeof token === 'string' ? getOctokit(token) : token;
+    if (getTagName(eventPayloadSubset) !== null) {
+      debug(`Push event for tag ref: ${eventPayloadSubset.ref}`);
+      const tagFetcher = new TagCommitFetcher(this.tagConfigPath);
+      const tagCommits = await tagFetcher.fetchCommits(
+        token,
+        owner,
+        repo,
+        eventPayloadSubset,
+      );
+      this.nothingToLint = tagFetcher.nothingToLint;
+      return tagCommits;
+    }
+
+    const octokit = typeof token === 'string' ? createOctokit(token) : token;
     const { before, after, commits: payloadCommits } = eventPayloadSubset;
     debug(`Push event: before SHA: ${before}, after SHA: ${after}`);
 
-    if (before && after && before !== after) {
-      debug(
-        `Attempting to fetch commits via compare API between ${before} and ${after}.`,
+    if (before && after && NULL_SHA.test(before)) {
+      const baseRef = await this.resolveBaseRef(
+        octokit,
+        owner,
+        repo,
+        eventPayloadSubset,
       );
-      try {
-        const { data: comparison } = await octokit.rest.repos.compareCommits({
-          owner,
-          repo,
-          head: after,
-          base: before,
-          per_page: 100,
-        });
-        debug(`API comparison found ${comparison.commits.length} commits.`);
-        return comparison.commits.map((commit) => ({
-          message: commit.commit.message,
-          hash: commit.sha,
-        }));
-      } catch (error: unknown) {
-        const errorMessage =
-          error instanceof Error ? error.message : String(error);
-        const detailedError = `Failed to compare commits via API for ${before}...${after}: ${errorMessage}`;
-        coreError(detailedError);
-        throw new Error(detailedError);
+      if (baseRef !== null) {
+        debug(
+          `New branch pushed; comparing against the merge base with ${baseRef}.`,
+        );
+        return this.compare(octokit, owner, repo, baseRef, after, depth);
       }
+    } else if (before && after && before !== after) {
+      return this.compare(octokit, owner, repo, before, after, depth);
     }
 
     if (payloadCommits?.length) {
       debug(
         `Using ${payloadCommits.length} commits from payload (API call not applicable or not attempted).`,
       );
-      return (payloadCommits as ActualPushEventCommit[]).map((commit) => ({
-        message: commit.message,
-        hash: commit.id || 'unknown_sha',
-      }));
+      return limitCommits(
+        (payloadCommits as ActualPushEventCommit[]).map(fromPayloadCommit),
+        depth,
+      );
     }
 
     debug('No commits found for push event from API or payload.');
     return [];
   }
+  /**
+   * Fetches the commits between two refs via the `compareCommits` API.
+   *
+   * @param octokit - The Octokit instance for API calls.
+   * @param owner - The owner of the repository.
+   * @param repo - The name of the repository.
+   * @param base - The base ref or SHA of the comparison.
+   * @param head - The head ref or SHA of the comparison.
+   * @param depth - The maximum number of commits to fetch. Optional.
+   * @returns A promise that resolves to the commits of the comparison.
+   * @throws If the `compareCommits` API call fails, or the comparison has
+   * more commits than the depth allows and its mode is `fail`.
+   * @private
+   */
+  private async compare(
+    octokit: OctokitInstance,
+    owner: string,
+    repo: string,
+    base: string,
+    head: string,
+    depth?: CommitDepth,
+  ): Promise<CommitToLint[]> {
+    debug(
+      `Attempting to fetch commits via compare API between ${base} and ${head}.`,
+    );
+    let comparison: Comparison;
+    try {
+      comparison = await compareRefs(octokit, owner, repo, base, head, depth);
+      debug(`API comparison found ${comparison.total} commits.`);
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      const detailedError = `Failed to compare commits via API for ${base}...${head}: ${errorMessage}`;
+      coreError(detailedError);
+      throw new Error(detailedError);
+    }
+
+    return limitCommits(comparison.commits, depth, comparison.total);
+  }
+
+  /**
+   * Resolves the ref that a new branch is compared against: the configured
+   * base ref, or else the default branch of the repository, read from the
+   * payload or, failing that, from the API.
+   *
+   * @param octokit - The Octokit instance for API calls.
+   * @param owner - The owner of the repository.
+   * @param repo - The name of the repository.
+   * @param payload - A subset of the GitHub `PushEvent` payload.
+   * @returns A promise that resolves to the base ref, or `null` if the pushed
+   * branch is the base branch itself.
+   * @private
+   */
+  private async resolveBaseRef(
+    octokit: OctokitInstance,
+    owner: string,
+    repo: string,
+    payload: PushEventPayloadSubset,
+  ): Promise<string | null> {
+    const baseRef =
+      this.baseRef ??
+      payload.repository?.default_branch ??
+      (await octokit.rest.repos.get({ owner, repo })).data.default_branch;
+
+    if (payload.ref === `refs/heads/${baseRef}` || payload.ref === baseRef) {
+      debug(`Pushed ref ${payload.ref} is the base branch itself.`);
+      return null;
+    } else {
+      return baseRef;
+    }
+  }
 }
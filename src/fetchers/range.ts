@@ -0,0 +1,61 @@
+/* eslint-disable testing-library/no-debugging-utils */
+import type {
+  CommitDepth,
+  CommitRange,
+  CommitToLint,
+  ICommitFetcher,
+  OctokitInstance,
+} from '../types.js';
+import { debug } from '@actions/core';
+import { createOctokit } from '../octokit.js';
+import { listComparedCommits } from './compare.js';
+
+/**
+ * Implements {@link ICommitFetcher} to retrieve the commits of an explicit
+ * range, given as a pair of refs or SHAs, rather than deriving them from the
+ * event payload. This allows events without commits of their own, such as
+ * `workflow_dispatch` or `schedule`, to lint any range of history.
+ */
+export class RangeCommitFetcher implements ICommitFetcher {
+  /**
+   * The range of commits to fetch.
+   * @private
+   */
+  private readonly range: CommitRange;
+
+  /**
+   * Constructs a new RangeCommitFetcher instance.
+   *
+   * @param range The range of commits to fetch.
+   */
+  constructor(range: CommitRange) {
+    this.range = range;
+  }
+
+  /**
+   * Fetches the commits of the range via the `compareCommits` API.
+   *
+   * @param token - The GitHub token for API authentication.
+   * @param owner - The owner of the repository.
+   * @param repo - The name of the repository.
+   * @param _payload - Unused, as the range is given explicitly.
+   * @param depth - The maximum number of commits to fetch. Optional.
+   * @returns A promise that resolves to an array of {@link CommitToLint}
+   * objects.
+   * @throws If the `compareCommits` API call fails, or the range has more
+   * commits than the depth allows and its mode is `fail`.
+   */
+  public async fetchCommits(
+    token: string | OctokitInstance,
+    owner: string,
+    repo: string,
+    _payload?: unknown,
+    depth?: CommitDepth,
+  ): Promise<CommitToLint[]> {
+    const octokit = typeof token === 'string' ? createOctokit(token) : token;
+    const { from, to } = this.range;
+    debug(`Fetching commits via compare API between ${from} and ${to}.`);
+
+    return listComparedCommits(octokit, owner, repo, from, to, depth);
+  }
+}
@@ -0,0 +1,187 @@
+/* eslint-disable testing-library/no-debugging-utils */
+import type {
+  CommitDepth,
+  CommitToLint,
+  ICommitFetcher,
+  OctokitInstance,
+  PullRequestEventPayloadSubset,
+} from '../types.js';
+import { debug, warning } from '@actions/core';
+import { createOctokit } from '../octokit.js';
+import { limitCommits } from './depth.js';
+import { resolvePullRequest } from './pull-request-title.js';
+
+/**
+ * The repository settings that determine the default squash commit message,
+ * as returned by the repositories API.
+ */
+interface SquashMergeSettings {
+  title: 'PR_TITLE' | 'COMMIT_OR_PR_TITLE';
+  message: 'PR_BODY' | 'COMMIT_MESSAGES' | 'BLANK';
+}
+
+/**
+ * The settings GitHub applies to repositories that have not changed them.
+ */
+const DEFAULT_SQUASH_MERGE_SETTINGS: SquashMergeSettings = {
+  title: 'COMMIT_OR_PR_TITLE',
+  message: 'COMMIT_MESSAGES',
+};
+
+/**
+ * Implements {@link ICommitFetcher} to lint the commit message that GitHub
+ * will create when the pull request is squash-merged. The message is rebuilt
+ * from the repository's `squash_merge_commit_title` and
+ * `squash_merge_commit_message` settings, so a pull request only passes when
+ * the history that lands on the base branch will pass as well.
+ */
+export class SquashMessageCommitFetcher
+  implements ICommitFetcher<PullRequestEventPayloadSubset>
+{
+  /**
+   * The fetcher of the commits of the pull request, which the squash commit
+   * message may be built from.
+   * @private
+   */
+  private readonly commitFetcher: ICommitFetcher<PullRequestEventPayloadSubset>;
+
+  /**
+   * Whether the commits of the pull request are linted alongside the squash
+   * commit message.
+   * @private
+   */
+  private readonly includeCommits: boolean;
+
+  /**
+   * Constructs a new SquashMessageCommitFetcher instance.
+   *
+   * @param commitFetcher The fetcher of the commits of the pull request.
+   * @param includeCommits Whether the commits of the pull request are linted
+   * alongside the squash commit message, or only used to build it.
+   */
+  constructor(
+    commitFetcher: ICommitFetcher<PullRequestEventPayloadSubset>,
+    includeCommits: boolean,
+  ) {
+    this.commitFetcher = commitFetcher;
+    this.includeCommits = includeCommits;
+  }
+
+  /**
+   * Notes reported by the fetcher of the commits of the pull request.
+   */
+  public get notices(): ReadonlyArray<string> {
+    return this.commitFetcher.notices ?? [];
+  }
+
+  /**
+   * Builds the squash commit message of the pull request, optionally
+   * followed by the commits of the pull request.
+   *
+   * @param token - The GitHub token for API authentication.
+   * @param owner - The owner of the repository where the pull request exists.
+   * @param repo - The name of the repository.
+   * @param payload - A subset of the GitHub `PullRequestEvent` payload.
+   * @param depth - The maximum number of commits to lint alongside the
+   * squash commit. Every commit is still fetched, since the squash message
+   * is built from all of them. Optional.
+   * @returns A promise that resolves to an array of {@link CommitToLint}
+   * objects, starting with the synthetic one for the squash commit.
+   * @throws If the commits are linted too, and the pull request has more
+   * commits than the depth allows and its mode is `fail`.
+   */
+  public async fetchCommits(
+    token: string | OctokitInstance,
+    owner: string,
+    repo: string,
+    payload: PullRequestEventPayloadSubset,
+    depth?: CommitDepth,
+  ): Promise<CommitToLint[]> {
+    if (!payload.number) {
+      warning(
+        'Pull request number is required for SquashMessageCommitFetcher but was not provided.',
+      );
+      return [];
+    }
+
+    const commits = await this.commitFetcher.fetchCommits(
+      token,
+      owner,
+      repo,
+      payload,
+    );
+    const pullRequest = await resolvePullRequest(token, owner, repo, payload);
+    const settings = await this.getSquashMergeSettings(token, owner, repo);
+    debug(
+      `Building squash commit message with title ${settings.title} and message ${settings.message}.`,
+    );
+
+    const [title, body] =
+      settings.title === 'COMMIT_OR_PR_TITLE' && commits.length === 1
+        ? splitMessage(commits[0].message)
+        : [pullRequest.title ?? '', ''];
+    const description =
+      settings.message === 'PR_BODY'
+        ? (pullRequest.body ?? '')
+        : settings.message === 'BLANK'
+          ? ''
+          : commits.length === 1 && settings.title === 'COMMIT_OR_PR_TITLE'
+            ? body
+            : commits.map((commit) => `* ${commit.message}`).join('\n\n');
+
+    const squashCommit: CommitToLint = {
+      message: [`${title} (#${payload.number})`, description]
+        .map((part) => part.replace(/\r\n/g, '\n').trim())
+        .filter((part) => part.length > 0)
+        .join('\n\n'),
+      hash: pullRequest.head.sha,
+      label: `PR #${payload.number} (squash)`,
+    };
+
+    return this.includeCommits
+      ? [squashCommit, ...limitCommits(commits, depth)]
+      : [squashCommit];
+  }
+
+  /**
+   * Reads the squash merge settings of the repository. When no token is
+   * available, or the token may not read them, GitHub's defaults are used.
+   *
+   * @param token - The GitHub token for API authentication.
+   * @param owner - The owner of the repository.
+   * @param repo - The name of the repository.
+   * @returns A promise that resolves to the squash merge settings.
+   * @private
+   */
+  private async getSquashMergeSettings(
+    token: string | OctokitInstance,
+    owner: string,
+    repo: string,
+  ): Promise<SquashMergeSettings> {
+    if (token === '') {
+      debug('No token available; using the default squash merge settings.');
+      return DEFAULT_SQUASH_MERGE_SETTINGS;
+    } else {
+      const octokit = typeof token === 'string' ? createOctokit(token) : token;
+      const { data } = await octokit.rest.repos.get({ owner, repo });
+      return {
+        title:
+          data.squash_merge_commit_title ?? DEFAULT_SQUASH_MERGE_SETTINGS.title,
+        message:
+          data.squash_merge_commit_message ??
+          DEFAULT_SQUASH_MERGE_SETTINGS.message,
+      };
+    }
+  }
+}
+
+/**
+ * Splits a commit message into its first line and the rest of the message.
+ *
+ * @param message - The commit message to split.
+ * @returns A tuple of the subject line and the remaining body.
+ */
+function splitMessage(message: string): [string, string] {
+  const [subject, ...rest] = message.split('\n');
+  return [subject, rest.join('\n')];
+}
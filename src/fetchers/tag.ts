@@ -0,0 +1,125 @@
+/* eslint-disable testing-library/no-debugging-utils */
+import type {
+  CommitToLint,
+  ICommitFetcher,
+  OctokitInstance,
+  TagEventPayloadSubset,
+} from '../types.js';
+import { debug } from '@actions/core';
+import { createOctokit } from '../octokit.js';
+
+/**
+ * The prefix of the fully qualified refs of tags, as found in push events.
+ */
+const TAG_REF_PREFIX = 'refs/tags/';
+
+/**
+ * Implements {@link ICommitFetcher} to retrieve the message of an annotated
+ * tag from a `push` event for `refs/tags/*` or a `create` event for a tag. The
+ * message is read from the tag object through the git data API. Lightweight
+ * tags have no message of their own and yield no commits, as do deleted tags
+ * and refs that are not tags, which is reported through `nothingToLint`.
+ */
+export class TagCommitFetcher implements ICommitFetcher<TagEventPayloadSubset> {
+  /**
+   * The path of the configuration that tag messages are linted against, if
+   * it differs from the default one.
+   * @private
+   */
+  private readonly configPath: string | undefined;
+
+  /**
+   * Why the event has nothing to lint, set when no commits are fetched.
+   */
+  public nothingToLint: string | undefined = undefined;
+
+  /**
+   * Constructs a new TagCommitFetcher instance.
+   *
+   * @param configPath An optional path of the configuration that tag
+   * messages are linted against instead of the default one.
+   */
+  constructor(configPath?: string) {
+    this.configPath = configPath;
+  }
+
+  /**
+   * Fetches the message of the tag referenced by the event.
+   *
+   * @param token - The GitHub token for API authentication.
+   * @param owner - The owner of the repository.
+   * @param repo - The name of the repository.
+   * @param eventPayloadSubset - A subset of the GitHub `PushEvent` or
+   * `CreateEvent` payload, containing the `ref` and, for create events, the
+   * `ref_type`.
+   * @returns A promise that resolves to an array containing a single
+   * {@link CommitToLint} for an annotated tag, or an empty array for a
+   * lightweight or deleted tag, or a ref that is not a tag.
+   * @throws If no token is given for a tag, or the git data API calls fail.
+   */
+  public async fetchCommits(
+    token: string | OctokitInstance,
+    owner: string,
+    repo: string,
+    eventPayloadSubset: TagEventPayloadSubset,
+  ): Promise<CommitToLint[]> {
+    const tagName = getTagName(eventPayloadSubset);
+    if (tagName === null) {
+      this.nothingToLint = `Ref ${eventPayloadSubset.ref} is not a tag; nothing to lint.`;
+      return [];
+    } else if (eventPayloadSubset.deleted) {
+      this.nothingToLint = `Tag ${tagName} was deleted; nothing to lint.`;
+      return [];
+    } else if (token === '') {
+      throw new Error(
+        `Linting tag ${tagName} requires a "github-token" or "app-id" input, as tag messages are read through the API.`,
+      );
+    }
+
+    const octokit = typeof token === 'string' ? createOctokit(token) : token;
+    const { data: ref } = await octokit.rest.git.getRef({
+      owner,
+      repo,
+      ref: `tags/${tagName}`,
+    });
+    debug(`Tag ${tagName} points to ${ref.object.type} ${ref.object.sha}`);
+
+    if (ref.object.type !== 'tag') {
+      this.nothingToLint = `Tag ${tagName} is a lightweight tag without a message to lint.`;
+      return [];
+    }
+
+    const { data: tag } = await octokit.rest.git.getTag({
+      owner,
+      repo,
+      tag_sha: ref.object.sha,
+    });
+
+    return [
+      {
+        message: tag.message.replace(/\n+$/, ''),
+        hash: tag.sha,
+        label: `tag ${tagName}`,
+        configPath: this.configPath,
+      },
+    ];
+  }
+}
+
+/**
+ * Extracts the name of the tag from a push or create event payload.
+ * Exported so that other fetchers can detect events about tags.
+ *
+ * @param payload - A subset of the GitHub `PushEvent` or `CreateEvent`
+ * payload.
+ * @returns The short name of the tag, or `null` if the ref is not a tag.
+ */
+export function getTagName(payload: TagEventPayloadSubset): string | null {
+  if (payload.ref_type === 'tag' && payload.ref) {
+    return payload.ref;
+  } else if (payload.ref?.startsWith(TAG_REF_PREFIX)) {
+    return payload.ref.slice(TAG_REF_PREFIX.length);
+  } else {
+    return null;
+  }
+}
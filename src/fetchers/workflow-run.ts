@@ -0,0 +1,171 @@
+/* eslint-disable testing-library/no-debugging-utils */
+import type {
+  CommitDepth,
+  CommitToLint,
+  ICommitFetcher,
+  OctokitInstance,
+  PullRequestEventPayloadSubset,
+  WorkflowRunEventPayloadSubset,
+} from '../types.js';
+import { debug, info, warning } from '@actions/core';
+import { createOctokit } from '../octokit.js';
+
+/**
+ * The events whose workflow runs are backed by a pull request.
+ */
+const PULL_REQUEST_EVENTS = ['pull_request', 'pull_request_target'];
+
+/**
+ * Implements {@link ICommitFetcher} to retrieve the commits of the pull
+ * request behind a `workflow_run` event. This enables the two-workflow
+ * pattern for pull requests from forks: an unprivileged `pull_request`
+ * workflow runs first, and a `workflow_run` workflow, which has a token that
+ * may write to the base repository, lints the commits without checking out
+ * the untrusted code. The commits themselves are fetched by the wrapped
+ * fetcher, as if the pull request had been synchronized.
+ */
+export class WorkflowRunCommitFetcher
+  implements ICommitFetcher<WorkflowRunEventPayloadSubset>
+{
+  /**
+   * The fetcher of the commits of the pull request behind the run.
+   * @private
+   */
+  private readonly commitFetcher: ICommitFetcher<PullRequestEventPayloadSubset>;
+
+  /**
+   * Constructs a new WorkflowRunCommitFetcher instance.
+   *
+   * @param commitFetcher The fetcher of the commits of the pull request
+   * behind the triggering run.
+   */
+  constructor(commitFetcher: ICommitFetcher<PullRequestEventPayloadSubset>) {
+    this.commitFetcher = commitFetcher;
+  }
+
+  /**
+   * Why the run has nothing to lint, set when it was not triggered by a pull
+   * request or no open pull request has its head.
+   */
+  public nothingToLint: string | undefined = undefined;
+
+  /**
+   * Notes reported by the fetcher of the commits of the pull request.
+   */
+  public get notices(): ReadonlyArray<string> {
+    return this.commitFetcher.notices ?? [];
+  }
+
+  /**
+   * Finds the pull request behind the triggering run and fetches its commits.
+   *
+   * @param token - The GitHub token for API authentication.
+   * @param owner - The owner of the base repository of the pull request.
+   * @param repo - The name of the base repository.
+   * @param eventPayloadSubset - A subset of the GitHub `WorkflowRunEvent`
+   * payload, containing the `workflow_run`.
+   * @param depth - The maximum number of commits to fetch. Optional.
+   * @returns A promise that resolves to an array of {@link CommitToLint}
+   * objects, or an empty array if the run was not triggered by a pull request
+   * or the pull request no longer points at the run's head.
+   * @throws If no token is given, as the pull request is read and its
+   * commit status written through the API, or the GitHub API calls fail.
+   */
+  public async fetchCommits(
+    token: string | OctokitInstance,
+    owner: string,
+    repo: string,
+    eventPayloadSubset: WorkflowRunEventPayloadSubset,
+    depth?: CommitDepth,
+  ): Promise<CommitToLint[]> {
+    const workflowRun = eventPayloadSubset.workflow_run;
+    if (!workflowRun) {
+      warning(
+        'Workflow run is required for WorkflowRunCommitFetcher but was not provided.',
+      );
+      return [];
+    } else if (token === '') {
+      throw new Error(
+        'Linting the pull request behind a workflow_run event requires a "github-token" or "app-id" input, as it is read through the API.',
+      );
+    } else if (!PULL_REQUEST_EVENTS.includes(workflowRun.event)) {
+      this.nothingToLint = `Workflow run was triggered by ${workflowRun.event}, not a pull request; nothing to lint.`;
+      return [];
+    }
+
+    const octokit = typeof token === 'string' ? createOctokit(token) : token;
+    const pullNumber = await this.findPullRequest(
+      octokit,
+      owner,
+      repo,
+      workflowRun,
+    );
+    if (pullNumber === null) {
+      this.nothingToLint = `No open pull request found with head ${workflowRun.head_sha}; nothing to lint.`;
+      return [];
+    }
+
+    const { data: pullRequest } = await octokit.rest.pulls.get({
+      owner,
+      repo,
+      pull_number: pullNumber,
+    });
+    info(
+      `Linting pull request #${pullNumber} behind the triggering workflow run.`,
+    );
+
+    return this.commitFetcher.fetchCommits(
+      octokit,
+      owner,
+      repo,
+      { action: 'synchronize', number: pullNumber, pull_request: pullRequest },
+      depth,
+    );
+  }
+
+  /**
+   * Finds the number of the pull request whose head is the head of the run.
+   * Runs for pull requests from the same repository list them in the
+   * payload, but runs for pull requests from forks do not, so those are
+   * searched for by the owner of the fork and the name of the branch. Either
+   * way, only a pull request whose head is still the run's head is used, as
+   * it may have been pushed to since the run.
+   *
+   * @param octokit - The Octokit instance for API calls.
+   * @param owner - The owner of the base repository.
+   * @param repo - The name of the base repository.
+   * @param workflowRun - The workflow run from the event payload.
+   * @returns A promise that resolves to the number of the pull request, or
+   * `null` if there is no open pull request with the run's head.
+   * @private
+   */
+  private async findPullRequest(
+    octokit: OctokitInstance,
+    owner: string,
+    repo: string,
+    workflowRun: NonNullable<WorkflowRunEventPayloadSubset['workflow_run']>,
+  ): Promise<number | null> {
+    const listed = workflowRun.pull_requests.find(
+      (candidate) => candidate.head.sha === workflowRun.head_sha,
+    );
+    if (listed) {
+      return listed.number;
+    } else if (!workflowRun.head_repository || !workflowRun.head_branch) {
+      return null;
+    }
+
+    const head = `${workflowRun.head_repository.owner.login}:${workflowRun.head_branch}`;
+    debug(`Searching for an open pull request with head ${head}.`);
+    const { data: pullRequests } = await octokit.rest.pulls.list({
+      owner,
+      repo,
+      state: 'open',
+      head,
+    });
+
+    const pullRequest = pullRequests.find(
+      (candidate) => candidate.head.sha === workflowRun.head_sha,
+    );
+    return pullRequest?.number ?? null;
+  }
+}
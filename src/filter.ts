@@ -0,0 +1,115 @@
+/* eslint-disable testing-library/no-debugging-utils */
+import { debug } from '@actions/core';
+import type {
+  CommitFilterOptions,
+  CommitIdentity,
+  CommitToLint,
+  SkippedCommit,
+} from './types.js';
+
+/**
+ * The suffix GitHub appends to the logins and names of GitHub Apps, such as
+ * `dependabot[bot]`.
+ */
+const BOT_SUFFIX = '[bot]';
+
+/**
+ * Excludes commits from linting based on their metadata, such as who wrote
+ * them or how many parents they have. It sits between the commit fetcher and
+ * the linter, complementing commitlint's `ignores`, which can only see the
+ * message. Commits without the metadata a criterion needs, such as pull
+ * request titles, are never excluded by it.
+ */
+export class CommitFilter {
+  /**
+   * The criteria by which commits are excluded.
+   * @private
+   */
+  private readonly options: CommitFilterOptions;
+
+  /**
+   * Constructs a new CommitFilter instance.
+   *
+   * @param options The criteria by which commits are excluded.
+   */
+  constructor(options: CommitFilterOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Splits the commits into those to lint and those to skip.
+   *
+   * @param commits The commits returned by the commit fetcher.
+   * @returns The commits to lint, in their original order, and the skipped
+   * commits along with the reason each was skipped.
+   */
+  public apply(commits: ReadonlyArray<CommitToLint>): {
+    commits: CommitToLint[];
+    skipped: SkippedCommit[];
+  } {
+    const included: CommitToLint[] = [];
+    const skipped: SkippedCommit[] = [];
+
+    for (const commit of commits) {
+      const reason = this.getSkipReason(commit);
+      if (reason === null) {
+        included.push(commit);
+      } else {
+        debug(`Skipping commit ${commit.hash}: ${reason}.`);
+        skipped.push({ commit, reason });
+      }
+    }
+
+    return { commits: included, skipped };
+  }
+
+  /**
+   * Determines why a commit is skipped, checking the criteria in turn.
+   *
+   * @param commit The commit to check.
+   * @returns The reason the commit is skipped, or `null` if it is linted.
+   * @private
+   */
+  private getSkipReason(commit: CommitToLint): string | null {
+    const { author } = commit;
+    const email = author?.email;
+
+    const login = author?.login;
+
+    if (
+      login &&
+      this.options.authors?.some(
+        (skipped) => skipped.toLowerCase() === login.toLowerCase(),
+      )
+    ) {
+      return `authored by @${login}`;
+    } else if (
+      email &&
+      this.options.authorEmails?.some((pattern) => pattern.test(email))
+    ) {
+      return `authored by ${email}`;
+    } else if (this.options.bots && author && isBot(author)) {
+      return 'authored by a bot';
+    } else if (this.options.mergeCommits && (commit.parentCount ?? 0) > 1) {
+      return 'merge commit';
+    } else {
+      return null;
+    }
+  }
+}
+
+/**
+ * Determines whether an identity belongs to a bot account. The type of the
+ * account is only reported by the API, so the `[bot]` suffix of the login or
+ * name of GitHub Apps is checked as well.
+ *
+ * @param identity The author or committer of a commit.
+ * @returns `true` if the identity belongs to a bot, otherwise `false`.
+ */
+function isBot(identity: CommitIdentity): boolean {
+  return (
+    identity.type === 'Bot' ||
+    Boolean(identity.login?.endsWith(BOT_SUFFIX)) ||
+    Boolean(identity.name?.endsWith(BOT_SUFFIX))
+  );
+}
@@ -8,42 +8,647 @@ import {
   startGroup,
   warning,
 } from '@actions/core';
-import { cosmiconfig } from 'cosmiconfig';
-import type { ICommitFetcher } from './types.js';
+import { cosmiconfig, type PublicExplorer } from 'cosmiconfig';
+import type {
+  AppCredentials,
+  CommitDepth,
+  CommitFetcherOptions,
+  CommitFilterOptions,
+  CommitRange,
+  CommitSource,
+  DepthMode,
+  ICommitFetcher,
+  MessageMode,
+  OctokitInstance,
+  ScopeSource,
+} from './types.js';
 
 import { Linter } from './linter/index.js';
 import { createLoaders } from './loaders.js';
 import { Context } from '@actions/github/lib/context.js';
 import getCommitFetcher from './fetchers/index.js';
+import { CommitFilter } from './filter.js';
+import { CommitWaivers, loadCommitWaivers } from './waivers.js';
+import { createOctokit, getConnectionOptions } from './octokit.js';
+import { getInstallationToken } from './app-token.js';
+import { IssueResolver } from './issues.js';
+import { deriveScopes } from './scopes.js';
+import {
+  createPackageConfigExplorer,
+  listChangedFilesViaApi,
+  listChangedFilesViaGit,
+  PackageConfigResolver,
+} from './package-configs.js';
 import DefaultFormatter from './linter/formatter.js';
+import CommitStatusFormatter from './linter/status-formatter.js';
 import path from 'node:path';
+import { existsSync, readFileSync } from 'node:fs';
 
 /**
- * Retrieves the 'commit-depth' input.
- * @returns The commit depth as a number, or `null`.
+ * Retrieves the 'commit-depth' input, along with the 'commit-depth-mode'
+ * input that decides which commits are kept when an event has more.
+ * @returns The commit depth, or `undefined` if every commit is linted.
  */
-function getCommitDepth(): number | null {
+function getCommitDepth(): CommitDepth | undefined {
   const commitDepthString = getInput('commit-depth');
-  if (!commitDepthString?.trim()) return null;
+  if (!commitDepthString?.trim()) return undefined;
   const depth = parseInt(commitDepthString, 10);
-  return Number.isNaN(depth) ? null : Math.max(depth, 0);
+  return Number.isNaN(depth) || depth <= 0
+    ? undefined
+    : { count: depth, mode: getCommitDepthMode() };
+}
+
+/**
+ * Retrieves the 'commit-depth-mode' input, which decides whether the oldest
+ * or the newest commits are kept when an event has more commits than the
+ * commit depth, or whether the run fails instead.
+ * This input defaults to 'oldest' if not provided.
+ *
+ * @returns The mode in which the commit depth is applied.
+ * @throws {Error} If the input is not 'oldest', 'newest', 'fail', or empty.
+ */
+function getCommitDepthMode(): DepthMode {
+  const raw = getInput('commit-depth-mode').trim().toLowerCase();
+  if (raw === 'newest' || raw === 'fail') {
+    return raw;
+  } else if (raw === 'oldest' || raw === '') {
+    return 'oldest';
+  } else {
+    throw new Error(
+      `Invalid value for "commit-depth-mode". Expected 'oldest', 'newest' or 'fail', but received '${raw}'.`,
+    );
+  }
+}
+
+/**
+ * Retrieves the 'max-retry-wait' input, the longest time in seconds to wait
+ * before retrying a failed request to the GitHub API.
+ *
+ * @returns The maximum wait in seconds, which defaults to 60.
+ * @throws {Error} If the input is not a non-negative number.
+ */
+function getMaxRetryWait(): number {
+  const raw = getInput('max-retry-wait').trim();
+  if (raw === '') {
+    return 60;
+  }
+
+  const seconds = Number(raw);
+  if (Number.isNaN(seconds) || seconds < 0) {
+    throw new Error(
+      `Invalid value for "max-retry-wait". Expected a number of seconds, but received '${raw}'.`,
+    );
+  } else {
+    return seconds;
+  }
+}
+
+/**
+ * Retrieves the 'api-url' input, the base URL of the GitHub REST API, such
+ * as that of a GitHub Enterprise Server instance.
+ *
+ * @returns The API URL, which defaults to the `GITHUB_API_URL` environment
+ * variable set by the runner.
+ * @throws {Error} If the input is not a valid URL.
+ */
+function getApiUrl(): string {
+  const raw = getInput('api-url').trim();
+  if (raw === '') {
+    return process.env.GITHUB_API_URL || 'https://api.github.com';
+  } else if (URL.canParse(raw)) {
+    return raw.replace(/\/+$/, '');
+  } else {
+    throw new Error(
+      `Invalid value for "api-url". Expected a URL, but received '${raw}'.`,
+    );
+  }
+}
+
+/**
+ * Retrieves the 'proxy-url' input, the proxy that requests to the GitHub
+ * API are sent through.
+ *
+ * @returns The proxy URL, or `undefined` to use the proxy environment
+ * variables.
+ * @throws {Error} If the input is not a valid URL.
+ */
+function getProxyUrl(): string | undefined {
+  const raw = getInput('proxy-url').trim();
+  if (raw === '') {
+    return undefined;
+  } else if (URL.canParse(raw)) {
+    return raw;
+  } else {
+    throw new Error(
+      `Invalid value for "proxy-url". Expected a URL, but received '${raw}'.`,
+    );
+  }
+}
+
+/**
+ * Reads the PEM file named by the 'ca-certificates' input, with further
+ * certificate authorities to trust when connecting to the GitHub API.
+ *
+ * @param workingDirectory The directory that relative paths resolve from.
+ * @returns The certificates, or `undefined` if the input is empty.
+ * @throws {Error} If the file cannot be read.
+ */
+function getCaCertificates(workingDirectory: string): string | undefined {
+  const raw = getInput('ca-certificates').trim();
+  if (raw === '') {
+    return undefined;
+  }
+
+  const caPath = path.resolve(workingDirectory, raw);
+  if (!existsSync(caPath)) {
+    throw new Error(
+      `Invalid value for "ca-certificates". Expected a path to a PEM file, but received '${raw}'.`,
+    );
+  } else {
+    return readFileSync(caPath, 'utf8');
+  }
 }
 
 /**
  * Retrieves the GitHub token from the action's 'github-token' input.
+ * The token may only be omitted when commits are read from local git.
  *
- * @returns The GitHub token.
- * @throws {Error} if the 'github-token' input is empty.
+ * @param source The source from which commits will be read.
+ * @returns The GitHub token, or an empty string when reading from git.
+ * @throws {Error} if the 'github-token' input is empty while commits are
+ * read from the API.
  */
-function getGithubToken(): string {
-  const token = getInput('github-token', { required: true }).trim();
-  if (token) {
+function getGithubToken(source: CommitSource): string {
+  const token = getInput('github-token').trim();
+  if (token || source === 'git') {
     return token;
   } else {
     throw new Error('The "github-token" input must not be empty.');
   }
 }
 
+/**
+ * Retrieves the credentials of the GitHub App to authenticate as from the
+ * 'app-id', 'private-key' and 'installation-id' inputs.
+ *
+ * @returns The credentials, or `null` if the 'app-id' input is empty.
+ * @throws {Error} If the 'private-key' input is empty while an app ID is
+ * given, or the 'installation-id' input is not a positive integer.
+ */
+function getAppCredentials(): AppCredentials | null {
+  const appId = getInput('app-id').trim();
+  if (appId === '') {
+    return null;
+  }
+
+  const privateKey = getInput('private-key').trim();
+  if (privateKey === '') {
+    throw new Error(
+      'The "private-key" input must not be empty when "app-id" is given.',
+    );
+  }
+
+  const raw = getInput('installation-id').trim();
+  const installationId = Number(raw);
+  if (raw === '') {
+    return { appId, privateKey };
+  } else if (Number.isInteger(installationId) && installationId > 0) {
+    return { appId, privateKey, installationId };
+  } else {
+    throw new Error(
+      `Invalid value for "installation-id". Expected a positive integer, but received '${raw}'.`,
+    );
+  }
+}
+
+/**
+ * Retrieves the 'commit-source' input, which selects whether commits are read
+ * from the GitHub REST or GraphQL API or from the local git repository. When
+ * the input is empty, the REST API is used if a 'github-token' or an
+ * 'app-id' is given, and git otherwise.
+ *
+ * @returns The source from which commits are read.
+ * @throws {Error} If the input is not 'api', 'graphql', 'git', or empty.
+ */
+function getCommitSource(): CommitSource {
+  const raw = getInput('commit-source').trim().toLowerCase();
+  if (raw === 'api' || raw === 'graphql' || raw === 'git') {
+    return raw;
+  } else if (raw === '') {
+    return getInput('github-token').trim() || getInput('app-id').trim()
+      ? 'api'
+      : 'git';
+  } else {
+    throw new Error(
+      `Invalid value for "commit-source". Expected 'api', 'graphql' or 'git', but received '${raw}'.`,
+    );
+  }
+}
+
+/**
+ * Retrieves the explicit commit range from the 'from-ref' and 'to-ref'
+ * inputs. The 'to-ref' defaults to the SHA that triggered the workflow,
+ * unless another repository is linted.
+ *
+ * @param defaultToRef The SHA that triggered the workflow, if known.
+ * @param otherRepository Whether the 'repository' input names another
+ * repository, whose refs the SHA is not one of.
+ * @returns The commit range, or `null` if 'from-ref' is empty.
+ * @throws {Error} if 'to-ref' is given without 'from-ref', or is missing
+ * while it has no default.
+ */
+function getCommitRange(
+  defaultToRef: string | undefined,
+  otherRepository: boolean,
+): CommitRange | null {
+  const from = getInput('from-ref').trim();
+  const to = getInput('to-ref').trim() || (otherRepository ? '' : defaultToRef);
+  if (from && to) {
+    return { from, to };
+  } else if (from && otherRepository) {
+    throw new Error(
+      'The "to-ref" input is required when "repository" names another repository.',
+    );
+  } else if (from) {
+    throw new Error(
+      'The "to-ref" input is required, as the SHA that triggered the workflow is unknown.',
+    );
+  } else if (getInput('to-ref').trim()) {
+    throw new Error('The "to-ref" input requires a "from-ref" input.');
+  } else {
+    return null;
+  }
+}
+
+/**
+ * Retrieves the 'repository' input, the repository whose commits are linted
+ * instead of the one the workflow runs in.
+ *
+ * @param defaultRepo The repository the workflow runs in.
+ * @returns The owner and name of the repository to lint.
+ * @throws {Error} If the input is not of the form 'owner/name'.
+ */
+function getRepository(defaultRepo: { owner: string; repo: string }): {
+  owner: string;
+  repo: string;
+} {
+  const raw = getInput('repository').trim();
+  const match = /^([\w.-]+)\/([\w.-]+)$/.exec(raw);
+  if (raw === '') {
+    return defaultRepo;
+  } else if (match) {
+    return { owner: match[1], repo: match[2] };
+  } else {
+    throw new Error(
+      `Invalid value for "repository". Expected 'owner/name', but received '${raw}'.`,
+    );
+  }
+}
+
+/**
+ * Retrieves the 'pull-request-number' input, the pull request whose commits
+ * are linted regardless of the event that triggered the workflow.
+ *
+ * @returns The number of the pull request, or `undefined` if not provided.
+ * @throws {Error} If the input is not a positive integer.
+ */
+function getPullRequestNumber(): number | undefined {
+  const raw = getInput('pull-request-number').trim();
+  const pullNumber = Number(raw);
+  if (raw === '') {
+    return undefined;
+  } else if (Number.isInteger(pullNumber) && pullNumber > 0) {
+    return pullNumber;
+  } else {
+    throw new Error(
+      `Invalid value for "pull-request-number". Expected a positive integer, but received '${raw}'.`,
+    );
+  }
+}
+
+/**
+ * Builds the event to lint a pull request given by number, as if it had just
+ * been opened, so that the pull request fetchers can be reused.
+ *
+ * @param octokit The Octokit instance, or an empty token if none was given.
+ * @param owner The owner of the repository of the pull request.
+ * @param repo The name of the repository of the pull request.
+ * @param pullNumber The number of the pull request.
+ * @returns A promise that resolves to the name and payload of the event.
+ * @throws {Error} If no token is available, or the pull request cannot be
+ * read.
+ */
+async function getPullRequestEvent(
+  octokit: string | OctokitInstance,
+  owner: string,
+  repo: string,
+  pullNumber: number,
+): Promise<Pick<Context, 'eventName' | 'payload'>> {
+  if (typeof octokit === 'string') {
+    throw new Error(
+      'The "pull-request-number" input requires a "github-token" or "app-id" input.',
+    );
+  }
+
+  const { data: pullRequest } = await octokit.rest.pulls.get({
+    owner,
+    repo,
+    pull_number: pullNumber,
+  });
+  return {
+    eventName: 'pull_request',
+    payload: {
+      action: 'opened',
+      number: pullNumber,
+      pull_request: { ...pullRequest, body: pullRequest.body ?? undefined },
+    },
+  };
+}
+
+/**
+ * Retrieves an input that controls whether a message derived from the event,
+ * such as the pull request title, is linted not at all, alongside the
+ * commits, or instead of them. These inputs default to 'off' if not provided.
+ *
+ * @param name The name of the input, such as 'pull-request-title'.
+ * @returns The mode in which the message is linted.
+ * @throws {Error} If the input is not 'off', 'include', 'only', or empty.
+ */
+function getMessageMode(name: string): MessageMode {
+  const raw = getInput(name).trim().toLowerCase();
+  if (raw === 'include' || raw === 'only') {
+    return raw;
+  } else if (raw === 'off' || raw === '') {
+    return 'off';
+  } else {
+    throw new Error(
+      `Invalid value for "${name}". Expected 'off', 'include' or 'only', but received '${raw}'.`,
+    );
+  }
+}
+
+/**
+ * Retrieves the boolean value for the 'pull-request-body' input.
+ * This input defaults to `false` if not provided.
+ *
+ * @returns {boolean} Returns `true` if the input is 'true', and `false` if empty or 'false'.
+ * @throws {Error} If the input is not 'true', 'false', or empty.
+ */
+function getPullRequestBody(): boolean {
+  const raw = getInput('pull-request-body').trim().toLowerCase();
+  if (raw === 'true') {
+    return true;
+  } else if (raw === 'false' || raw === '') {
+    return false;
+  } else {
+    throw new Error(
+      `Invalid value for "pull-request-body". Expected 'true' or 'false', but received '${raw}'.`,
+    );
+  }
+}
+
+/**
+ * Retrieves the 'base-ref' input, the ref that pushes of new branches are
+ * compared against.
+ *
+ * @returns The base ref, or `undefined` to use the default branch.
+ */
+function getBaseRef(): string | undefined {
+  return getInput('base-ref').trim() || undefined;
+}
+
+/**
+ * Retrieves the boolean value for the 'incremental' input.
+ * This input defaults to `false` if not provided.
+ *
+ * @param source The source from which commits are read, as only the REST
+ * API supports incremental linting.
+ * @returns {boolean} Returns `true` if the input is 'true', and `false` if empty or 'false'.
+ * @throws {Error} If the input is not 'true', 'false', or empty, or is
+ * 'true' while commits are not read from the REST API.
+ */
+function getIncremental(source: CommitSource): boolean {
+  const raw = getInput('incremental').trim().toLowerCase();
+  if (raw === 'true' && source !== 'api') {
+    throw new Error(
+      `The "incremental" input requires 'api' as the "commit-source", but received '${source}'.`,
+    );
+  } else if (raw === 'true') {
+    return true;
+  } else if (raw === 'false' || raw === '') {
+    return false;
+  } else {
+    throw new Error(
+      `Invalid value for "incremental". Expected 'true' or 'false', but received '${raw}'.`,
+    );
+  }
+}
+
+/**
+ * Retrieves the boolean value for the 'per-package-config' input, which lints
+ * each commit against the nearest configuration of every file it changes.
+ * This input defaults to `false` if not provided.
+ *
+ * @returns {boolean} Returns `true` if the input is 'true', and `false` if empty or 'false'.
+ * @throws {Error} If the input is not 'true', 'false', or empty.
+ */
+function getPerPackageConfig(): boolean {
+  const raw = getInput('per-package-config').trim().toLowerCase();
+  if (raw === 'true') {
+    return true;
+  } else if (raw === 'false' || raw === '') {
+    return false;
+  } else {
+    throw new Error(
+      `Invalid value for "per-package-config". Expected 'true' or 'false', but received '${raw}'.`,
+    );
+  }
+}
+
+/**
+ * Loads the configuration named by the 'tag-config-file' input, against which
+ * the messages of annotated tags are linted. The file is loaded through the
+ * same explorer as the default configuration, so its dependencies are
+ * installed too.
+ *
+ * @param explorer The cosmiconfig explorer used to load configurations.
+ * @param workingDirectory The directory the input is resolved against.
+ * @returns The path of the tag configuration, or `undefined` if the input is
+ * empty.
+ * @throws {Error} if the file is missing, invalid or empty.
+ */
+async function loadTagConfig(
+  explorer: PublicExplorer,
+  workingDirectory: string,
+): Promise<string | undefined> {
+  const tagConfigFile = getInput('tag-config-file').trim();
+  if (!tagConfigFile) {
+    return undefined;
+  }
+
+  const result = await explorer.load(
+    path.resolve(workingDirectory, tagConfigFile),
+  );
+  if (
+    result === null ||
+    typeof result.config !== 'object' ||
+    result.config === null
+  ) {
+    throw new Error(`Invalid tag configuration "${tagConfigFile}".`);
+  } else if (result.isEmpty) {
+    throw new Error(`Configuration file "${result.filepath}" is empty.`);
+  } else {
+    return result.filepath;
+  }
+}
+
+/**
+ * Retrieves the 'ignore-authors' input, a comma or newline separated list of
+ * the GitHub logins of authors whose commits are not linted.
+ *
+ * @returns The logins, which are empty if the input is not provided.
+ */
+function getIgnoredAuthors(): string[] {
+  return getInput('ignore-authors')
+    .split(/[\n,]/)
+    .map((login) => login.trim().replace(/^@/, ''))
+    .filter((login) => login.length > 0);
+}
+
+/**
+ * Retrieves the 'ignore-author-emails' input, a newline separated list of
+ * regular expressions matched against the email address of the author of
+ * each commit.
+ *
+ * @returns The patterns, which are empty if the input is not provided.
+ * @throws {Error} If a pattern is not a valid regular expression.
+ */
+function getIgnoredAuthorEmails(): RegExp[] {
+  return getInput('ignore-author-emails')
+    .split('\n')
+    .map((pattern) => pattern.trim())
+    .filter((pattern) => pattern.length > 0)
+    .map((pattern) => {
+      try {
+        return new RegExp(pattern, 'i');
+      } catch {
+        throw new Error(
+          `Invalid value for "ignore-author-emails". Expected regular expressions, but received '${pattern}'.`,
+        );
+      }
+    });
+}
+
+/**
+ * Retrieves the boolean value for the 'ignore-bots' input.
+ * This input defaults to `false` if not provided.
+ *
+ * @returns {boolean} Returns `true` if the input is 'true', and `false` if empty or 'false'.
+ * @throws {Error} If the input is not 'true', 'false', or empty.
+ */
+function getIgnoreBots(): boolean {
+  const raw = getInput('ignore-bots').trim().toLowerCase();
+  if (raw === 'true') {
+    return true;
+  } else if (raw === 'false' || raw === '') {
+    return false;
+  } else {
+    throw new Error(
+      `Invalid value for "ignore-bots". Expected 'true' or 'false', but received '${raw}'.`,
+    );
+  }
+}
+
+/**
+ * Retrieves the boolean value for the 'ignore-merge-commits' input.
+ * This input defaults to `false` if not provided.
+ *
+ * @returns {boolean} Returns `true` if the input is 'true', and `false` if empty or 'false'.
+ * @throws {Error} If the input is not 'true', 'false', or empty.
+ */
+function getIgnoreMergeCommits(): boolean {
+  const raw = getInput('ignore-merge-commits').trim().toLowerCase();
+  if (raw === 'true') {
+    return true;
+  } else if (raw === 'false' || raw === '') {
+    return false;
+  } else {
+    throw new Error(
+      `Invalid value for "ignore-merge-commits". Expected 'true' or 'false', but received '${raw}'.`,
+    );
+  }
+}
+
+/**
+ * Retrieves the criteria by which commits are excluded from linting.
+ *
+ * @returns The options of the commit filter.
+ * @throws {Error} If any of the filter inputs is invalid.
+ */
+function getCommitFilterOptions(): CommitFilterOptions {
+  return {
+    authors: getIgnoredAuthors(),
+    authorEmails: getIgnoredAuthorEmails(),
+    bots: getIgnoreBots(),
+    mergeCommits: getIgnoreMergeCommits(),
+  };
+}
+
+/**
+ * Retrieves the path of the ignore file that waives commits, from the
+ * 'ignore-file' input.
+ *
+ * @param workingDirectory The directory relative paths are resolved against.
+ * @returns The absolute path of the ignore file, `.commitlintignore` if the
+ * input is empty.
+ */
+function getIgnoreFile(workingDirectory: string): string {
+  return path.resolve(
+    workingDirectory,
+    getInput('ignore-file').trim() || '.commitlintignore',
+  );
+}
+
+/**
+ * Retrieves the 'scope-source' input, which selects where the scopes allowed
+ * by `scope-enum` are derived from.
+ *
+ * @returns The source of the scopes, 'off' if the input is empty.
+ * @throws {Error} If the input is not 'off', 'directories', 'workspaces',
+ * 'codeowners', or empty.
+ */
+function getScopeSource(): ScopeSource {
+  const raw = getInput('scope-source').trim().toLowerCase();
+  if (
+    raw === 'directories' ||
+    raw === 'workspaces' ||
+    raw === 'codeowners' ||
+    raw === 'off'
+  ) {
+    return raw;
+  } else if (raw === '') {
+    return 'off';
+  } else {
+    throw new Error(
+      `Invalid value for "scope-source". Expected 'off', 'directories', 'workspaces' or 'codeowners', but received '${raw}'.`,
+    );
+  }
+}
+
+/**
+ * Retrieves the 'scope-roots' input, a comma or newline separated list of
+ * the directories whose subdirectories are scopes.
+ *
+ * @returns The directories, `packages` if the input is empty.
+ */
+function getScopeRoots(): string[] {
+  const roots = getInput('scope-roots')
+    .split(/[\n,]/)
+    .map((root) => root.trim())
+    .filter((root) => root.length > 0);
+  return roots.length > 0 ? roots : ['packages'];
+}
+
 /**
  * Retrieves the boolean value for the 'allow-force-install' input.
  *
@@ -139,9 +744,11 @@ function setFailed(message: string | Error): void {
  */
 export async function run(
   ghCtx = new Context(),
-  commitFetcherFactory: (event: string) => ICommitFetcher | null = (
+  commitFetcherFactory: (
     event: string,
-  ) => getCommitFetcher(event),
+    options: CommitFetcherOptions,
+  ) => ICommitFetcher | null = (event, options) =>
+    getCommitFetcher(event, options),
   workingDirectory: string = process.cwd(),
 ): Promise<string | void> {
   try {
@@ -159,7 +766,50 @@ export async function run(
 
     const helpUrl = getHelpURL();
     const commitDepth = getCommitDepth();
-    const githubToken = getGithubToken();
+    const commitSource = getCommitSource();
+    const connectionOptions = getConnectionOptions({
+      apiUrl: getApiUrl(),
+      proxy: getProxyUrl(),
+      caCertificates: getCaCertificates(workingDirectory),
+    });
+    const { owner, repo } = getRepository(ghCtx.repo);
+    const otherRepository =
+      owner !== ghCtx.repo.owner || repo !== ghCtx.repo.repo;
+    const pullRequestNumber = getPullRequestNumber();
+    const appCredentials = getAppCredentials();
+    const githubToken = appCredentials
+      ? await getInstallationToken(
+          appCredentials,
+          owner,
+          repo,
+          connectionOptions,
+        )
+      : getGithubToken(commitSource);
+    const octokit = githubToken
+      ? createOctokit(
+          githubToken,
+          { maxWait: getMaxRetryWait() * 1000 },
+          connectionOptions,
+        )
+      : githubToken;
+    const commitRange = getCommitRange(ghCtx.sha, otherRepository);
+    if (otherRepository && commitSource === 'git') {
+      // noinspection ExceptionCaughtLocallyJS
+      throw new Error(
+        `Linting ${owner}/${repo} requires the API as the "commit-source", as the checkout holds another repository; give a "github-token" or "app-id" input.`,
+      );
+    } else if (otherRepository && !commitRange && !pullRequestNumber) {
+      // noinspection ExceptionCaughtLocallyJS
+      throw new Error(
+        `Linting ${owner}/${repo} requires a "pull-request-number" or "from-ref" input.`,
+      );
+    }
+    const commitFilter = new CommitFilter(getCommitFilterOptions());
+    const scopeSource = getScopeSource();
+    const scopeRoots = getScopeRoots();
+    const commitWaivers = new CommitWaivers(
+      loadCommitWaivers(getIgnoreFile(workingDirectory)),
+    );
 
     debug(`Current working directory: ${workingDirectory}`);
     const explorer = cosmiconfig('commitlint', {
@@ -182,34 +832,119 @@ export async function run(
       // noinspection ExceptionCaughtLocallyJS
       throw new Error(`Configuration file "${result.filepath}" is empty.`);
     } else {
-      info(`Fetching commits for event: ${ghCtx.eventName}`);
-      const commitFetcher = commitFetcherFactory(ghCtx.eventName);
+      const { eventName, payload } = pullRequestNumber
+        ? await getPullRequestEvent(octokit, owner, repo, pullRequestNumber)
+        : ghCtx;
+      if (commitRange) {
+        info(
+          `Fetching commits for range: ${commitRange.from}..${commitRange.to}`,
+        );
+      } else if (pullRequestNumber) {
+        info(
+          `Fetching commits for pull request: ${owner}/${repo}#${pullRequestNumber}`,
+        );
+      } else {
+        info(`Fetching commits for event: ${eventName}`);
+      }
+      const tagConfigPath = await loadTagConfig(explorer, workingDirectory);
+      const pullRequestTitle = getMessageMode('pull-request-title');
+      const squashMessage = getMessageMode('squash-message');
+      if (pullRequestTitle === 'only' && squashMessage !== 'off') {
+        // noinspection ExceptionCaughtLocallyJS
+        throw new Error(
+          `The "squash-message" input must be 'off' when "pull-request-title" is 'only', as then only the title is linted, but received '${squashMessage}'.`,
+        );
+      }
+      const commitFetcher = commitFetcherFactory(eventName, {
+        source: commitSource,
+        workingDirectory,
+        range: commitRange ?? undefined,
+        pullRequestTitle,
+        pullRequestBody: getPullRequestBody(),
+        squashMessage,
+        tagConfigPath,
+        incremental: getIncremental(commitSource),
+        baseRef: getBaseRef(),
+      });
       if (commitFetcher) {
-        const eventCommits = await commitFetcher.fetchCommits(
-          githubToken,
-          ghCtx.repo.owner,
-          ghCtx.repo.repo,
-          ghCtx.payload,
+        startGroup('Fetching commits');
+        const eventCommits = await commitFetcher
+          .fetchCommits(octokit, owner, repo, payload, commitDepth)
+          .finally(() => endGroup());
+        const { commits: filteredCommits, skipped } =
+          commitFilter.apply(eventCommits);
+        const {
+          commits: commitsToLint,
+          waived,
+          expired,
+        } = commitWaivers.apply(filteredCommits);
+
+        if (skipped.length > 0) {
+          info(`Skipping ${skipped.length} commits matched by the filters.`);
+        }
+        if (waived.length > 0) {
+          info(`Waiving ${waived.length} commits listed in the ignore file.`);
+        }
+        const expiryNotices = expired.map(
+          ({ commit, waiver }) =>
+            `The waiver of commit ${commit.hash.substring(0, 7)} expired after ${waiver.expires}, so it is linted again.`,
         );
-        const commitsToLint =
-          commitDepth && eventCommits.length > commitDepth
-            ? eventCommits.slice(0, commitDepth)
-            : eventCommits;
+        expiryNotices.forEach((notice) => warning(notice));
 
-        if (commitsToLint.length > 0) {
+        if (
+          commitsToLint.length > 0 ||
+          skipped.length > 0 ||
+          waived.length > 0
+        ) {
           startGroup('Running commit-lint');
           const failOnWarns = getFailOnWarnings();
           const failOnErrs = getFailOnErrors();
 
+          const packageConfigs = getPerPackageConfig()
+            ? new PackageConfigResolver(
+                createPackageConfigExplorer(),
+                workingDirectory,
+                result.filepath,
+                typeof octokit === 'string' || commitSource === 'git'
+                  ? listChangedFilesViaGit(workingDirectory)
+                  : listChangedFilesViaApi(octokit, owner, repo),
+              )
+            : null;
+
           const linter = new Linter(
-            commitsToLint,
+            packageConfigs
+              ? await packageConfigs.resolve(commitsToLint)
+              : commitsToLint,
             result.filepath,
             helpUrl,
             workingDirectory,
+            typeof octokit === 'string'
+              ? null
+              : new IssueResolver(octokit, owner, repo),
+            deriveScopes(scopeSource, workingDirectory, scopeRoots),
           );
           const result1 = await linter.lint();
 
-          await result1.format(new DefaultFormatter());
+          await result1.format(
+            new DefaultFormatter(
+              [...(commitFetcher.notices ?? []), ...expiryNotices],
+              skipped,
+              waived,
+            ),
+          );
+          if (eventName === 'workflow_run' && !commitRange) {
+            await result1.format(
+              new CommitStatusFormatter(
+                octokit,
+                owner,
+                repo,
+                payload.workflow_run.head_sha,
+                failOnErrs,
+                failOnWarns,
+                `${ghCtx.serverUrl}/${ghCtx.repo.owner}/${ghCtx.repo.repo}/actions/runs/${ghCtx.runId}`,
+              ),
+            );
+          }
           if (result1.hasErrors) {
             if (failOnErrs) {
               setFailed(
@@ -234,6 +969,8 @@ export async function run(
             info(`All ${result1.checkedCount} commit messages are okay.`);
           }
           endGroup();
+        } else if (commitFetcher.nothingToLint) {
+          info(commitFetcher.nothingToLint);
         } else {
           setFailed('No commits found to lint.');
         }
@@ -0,0 +1,79 @@
+import type {
+  IIssueResolver,
+  OctokitInstance,
+  ReferencedIssue,
+} from './types.js';
+
+/**
+ * The statuses with which the issues API reports that an issue does not
+ * exist, or no longer does, such as when it was deleted or transferred.
+ */
+const MISSING_STATUSES = new Set([404, 410]);
+
+/**
+ * Looks up the issues that commit messages refer to through the issues API.
+ * Each issue is only requested once, however many commits refer to it.
+ */
+export class IssueResolver implements IIssueResolver {
+  /**
+   * The Octokit instance used for the API calls.
+   * @private
+   */
+  private readonly octokit: OctokitInstance;
+
+  /**
+   * The owner of the repository the issues belong to.
+   */
+  public readonly owner: string;
+
+  /**
+   * The name of the repository the issues belong to.
+   */
+  public readonly repo: string;
+
+  /**
+   * The issues looked up so far, by their number.
+   * @private
+   */
+  private readonly issues = new Map<number, Promise<ReferencedIssue | null>>();
+
+  /**
+   * Constructs a new IssueResolver instance.
+   *
+   * @param octokit The Octokit instance used for the API calls.
+   * @param owner The owner of the repository the issues belong to.
+   * @param repo The name of the repository the issues belong to.
+   */
+  constructor(octokit: OctokitInstance, owner: string, repo: string) {
+    this.octokit = octokit;
+    this.owner = owner;
+    this.repo = repo;
+  }
+
+  public getIssue(issueNumber: number): Promise<ReferencedIssue | null> {
+    if (!this.issues.has(issueNumber)) {
+      this.issues.set(
+        issueNumber,
+        this.octokit.rest.issues
+          .get({
+            owner: this.owner,
+            repo: this.repo,
+            issue_number: issueNumber,
+          })
+          .then(
+            ({ data }) => ({
+              number: data.number,
+              state: data.state === 'open' ? 'open' : 'closed',
+            }),
+            (error: { status?: number }) => {
+              if (error.status && MISSING_STATUSES.has(error.status)) {
+                return null;
+              }
+              throw error;
+            },
+          ),
+      );
+    }
+    return this.issues.get(issueNumber)!;
+  }
+}
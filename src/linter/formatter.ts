@@ -1,6 +1,7 @@
 import { summary as summarieser } from '@actions/core';
 // @ts-expect-error since these are not exported
 import type { Summary, SummaryTableRow } from '@actions/core/lib/summary';
+import type { CommitToLint, SkippedCommit, WaivedCommit } from '../types.js';
 import { Formatter } from './index.js';
 import { Results } from './result.js';
 
@@ -8,12 +9,55 @@ import { Results } from './result.js';
  * The default formatter for presenting linting results in a readable GitHub Actions Summary.
  */
 export default class DefaultFormatter implements Formatter {
-  public format(results: Results): void {
+  /**
+   * Notes raised while gathering the commits, such as a fallback to another
+   * source of commits, that are listed below the summary.
+   * @private
+   */
+  private readonly notices: ReadonlyArray<string>;
+
+  /**
+   * Commits that were excluded from linting, which are listed in the table
+   * after the linted ones.
+   * @private
+   */
+  private readonly skipped: ReadonlyArray<SkippedCommit>;
+
+  /**
+   * Commits that were waived in the ignore file, which are listed in the
+   * table after the skipped ones.
+   * @private
+   */
+  private readonly waived: ReadonlyArray<WaivedCommit>;
+
+  /**
+   * Constructs a new DefaultFormatter instance.
+   *
+   * @param notices Notes to list below the summary, typically those reported
+   * by the commit fetcher. Defaults to none.
+   * @param skipped Commits that were excluded from linting, along with the
+   * reason for each. Defaults to none.
+   * @param waived Commits that were waived in the ignore file, along with
+   * their waiver. Defaults to none.
+   */
+  constructor(
+    notices: ReadonlyArray<string> = [],
+    skipped: ReadonlyArray<SkippedCommit> = [],
+    waived: ReadonlyArray<WaivedCommit> = [],
+  ) {
+    this.notices = notices;
+    this.skipped = skipped;
+    this.waived = waived;
+  }
+
+  public async format(results: Results): Promise<void> {
     const summary = summarieser;
     summary.addHeading('Commit Lint Report', 2);
     this.formatSummary(results, summary);
+    this.formatNotices(summary);
     this.formatTable(results, summary);
     this.formatFooter(results, summary);
+    await summary.write();
   }
 
   private formatSummary(results: Results, summary: Summary): void {
@@ -40,6 +84,10 @@ export default class DefaultFormatter implements Formatter {
         `🟡 ${warningOnlyCommitsCount} commit${warningOnlyCommitsCount > 1 ? 's have' : ' has'} warnings that should be reviewed.`,
       errorCommitsCount > 0 &&
         `🔴 ${errorCommitsCount} commit${errorCommitsCount > 1 ? 's' : ''} failed and must be corrected before merging.`,
+      this.skipped.length > 0 &&
+        `⚪ ${this.skipped.length} commit${this.skipped.length > 1 ? 's were' : ' was'} skipped by the commit filters.`,
+      this.waived.length > 0 &&
+        `⚪ ${this.waived.length} commit${this.waived.length > 1 ? 's were' : ' was'} waived by the ignore file.`,
     ]
       .filter((line): line is string => typeof line === 'string')
       .join('\n');
@@ -49,14 +97,29 @@ export default class DefaultFormatter implements Formatter {
     }
   }
 
+  private formatNotices(summary: Summary): void {
+    if (this.notices.length === 0) {
+      return;
+    }
+
+    summary.addEOL().addList(this.notices.map((notice) => `ℹ️ ${notice}`));
+  }
+
   private formatTable(results: Results, summary: Summary): void {
-    if (results.checkedCount === 0) {
+    if (
+      results.checkedCount === 0 &&
+      this.skipped.length === 0 &&
+      this.waived.length === 0
+    ) {
       return;
     }
 
+    const showConfigs = results.items.some((item) => item.configs);
     const header: SummaryTableRow = [
       { data: 'SHA', header: true },
+      { data: 'Author', header: true },
       { data: 'Message', header: true },
+      ...(showConfigs ? [{ data: 'Config', header: true }] : []),
       { data: 'Status', header: true },
       { data: 'Notes', header: true },
     ];
@@ -71,13 +134,45 @@ export default class DefaultFormatter implements Formatter {
         : isWarning
           ? item.warnings[0].message
           : '';
-      const sha = `\`${item.hash.substring(0, 7)}\``;
       const message = `\`${item.input.split('\n')[0].trim()}\``;
 
-      return [sha, message, status, note];
+      const configs = (item.configs ?? [])
+        .map((config) => `\`${config}\``)
+        .join('<br>');
+
+      return [
+        formatSha(item),
+        formatAuthor(item),
+        message,
+        ...(showConfigs ? [configs] : []),
+        status,
+        note,
+      ];
     });
 
-    summary.addTable([header, ...rows]);
+    const skippedRows: SummaryTableRow[] = this.skipped.map(
+      ({ commit, reason }) => [
+        formatSha(commit),
+        formatAuthor(commit),
+        `\`${commit.message.split('\n')[0].trim()}\``,
+        ...(showConfigs ? [''] : []),
+        '⚪',
+        `Skipped: ${reason}`,
+      ],
+    );
+
+    const waivedRows: SummaryTableRow[] = this.waived.map(
+      ({ commit, waiver }) => [
+        formatSha(commit),
+        formatAuthor(commit),
+        `\`${commit.message.split('\n')[0].trim()}\``,
+        ...(showConfigs ? [''] : []),
+        '⚪',
+        `Waived: ${waiver.reason}`,
+      ],
+    );
+
+    summary.addTable([header, ...rows, ...skippedRows, ...waivedRows]);
   }
 
   private formatFooter(results: Results, summary: Summary): void {
@@ -96,3 +191,34 @@ export default class DefaultFormatter implements Formatter {
     );
   }
 }
+
+/**
+ * Formats the SHA cell of a row: the label of the message if it has one,
+ * otherwise the short hash, linked to the commit on GitHub when its URL is
+ * known.
+ *
+ * @param commit The commit, or the result of linting it.
+ * @returns The contents of the cell.
+ */
+function formatSha(
+  commit: Pick<CommitToLint, 'hash' | 'label' | 'htmlUrl'>,
+): string {
+  const shortSha = `\`${commit.hash.substring(0, 7)}\``;
+  return (
+    commit.label ??
+    (commit.htmlUrl ? `<a href="${commit.htmlUrl}">${shortSha}</a>` : shortSha)
+  );
+}
+
+/**
+ * Formats the author cell of a row: the GitHub login of the author if it is
+ * known, otherwise their git name.
+ *
+ * @param commit The commit, or the result of linting it.
+ * @returns The contents of the cell.
+ */
+function formatAuthor(commit: Pick<CommitToLint, 'author'>): string {
+  return commit.author?.login
+    ? `@${commit.author.login}`
+    : (commit.author?.name ?? '');
+}
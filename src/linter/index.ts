@@ -1,5 +1,6 @@
 /* eslint-disable testing-library/no-debugging-utils */
 import { existsSync as fsExistsSync } from 'node:fs';
+import path from 'node:path';
 import { debug, info } from '@actions/core';
 import lintLib from '@commitlint/lint';
 import loadConfig from '@commitlint/load';
@@ -7,17 +8,24 @@ import type { LintOutcome, QualifiedRules } from '@commitlint/types';
 import type {
   ActualParserOptions,
   CommitToLint,
+  IIssueResolver,
   LoadedCommitlintConfig,
 } from '../types.js';
 import { Results } from './result.js';
+import { createGitHubPlugin } from './rules.js';
+import { suggestScopes, withScopes } from '../scopes.js';
 
 /**
  * A flattened, simplified object representing the complete result of linting a
- * single commit.
+ * single commit, along with the metadata of that commit. Commits linted
+ * against the configurations of the packages they touch list those
+ * configurations, relative to the project.
  */
-export type SimplifiedLinterResult = {
-  hash: string;
-} & LintOutcome;
+export type SimplifiedLinterResult = Omit<
+  CommitToLint,
+  'message' | 'configPath' | 'configPaths'
+> &
+  LintOutcome & { configs?: string[] };
 
 /**
  * Defines the contract for a formatter that writes a Results object to a
@@ -28,7 +36,7 @@ export interface Formatter {
    * Populates a Summary object with a formatted representation of the results.
    * @param results The results object to format.
    */
-  format(results: Results): void;
+  format(results: Results): void | Promise<void>;
 }
 
 /**
@@ -62,6 +70,20 @@ export class Linter {
    */
   private readonly projectBasePath: string;
 
+  /**
+   * Looks up the issues that commit messages refer to, or `null` if they
+   * cannot be looked up.
+   * @private
+   */
+  private readonly issueResolver: IIssueResolver | null;
+
+  /**
+   * The scopes derived from the layout of the repository, which replace the
+   * list of `scope-enum`, or `null` to keep the configured one.
+   * @private
+   */
+  private readonly scopes: ReadonlyArray<string> | null;
+
   /**
    * Constructs a new Linter instance.
    *
@@ -74,40 +96,53 @@ export class Linter {
    * @param projectBasePath The root path of the project. This is used as the
    * current working directory for loading configurations and resolving
    * shareable presets (e.g., from `node_modules`).
+   * @param issueResolver Looks up the issues that commit messages refer to,
+   * for the `references-exist` rule. Defaults to `null`, which leaves
+   * references unchecked.
+   * @param scopes The scopes derived from the layout of the repository, which
+   * replace the list of `scope-enum` of every configuration. Defaults to
+   * `null`, which keeps the configured lists.
    */
   constructor(
     commitsToLint: ReadonlyArray<CommitToLint>,
     configPathInput: string | null,
     helpUrlInput: string,
     projectBasePath: string,
+    issueResolver: IIssueResolver | null = null,
+    scopes: ReadonlyArray<string> | null = null,
   ) {
     this.commitsToLint = commitsToLint;
     this.configPathInput = configPathInput;
     this.helpUrlInput = helpUrlInput;
     this.projectBasePath = projectBasePath;
+    this.issueResolver = issueResolver;
+    this.scopes = scopes;
   }
 
   /**
    * Loads the effective commitlint configuration from the specified path.
    * A valid path to an existing configuration file must be provided.
    *
+   * @param configPath The path of the configuration file to load.
    * @returns A promise that resolves to the loaded and parsed commitlint
    * configuration object.
-   * @throws An error if `configPathInput` is not provided or if the file
+   * @throws An error if `configPath` is not provided or if the file
    * does not exist at the specified path.
    * @private
    */
-  private async loadEffectiveConfig(): Promise<LoadedCommitlintConfig> {
-    if (this.configPathInput) {
-      if (fsExistsSync(this.configPathInput)) {
-        info(`Loading commitlint configuration from: ${this.configPathInput}`);
+  private async loadEffectiveConfig(
+    configPath: string | null,
+  ): Promise<LoadedCommitlintConfig> {
+    if (configPath) {
+      if (fsExistsSync(configPath)) {
+        info(`Loading commitlint configuration from: ${configPath}`);
         return (await loadConfig(
           {},
-          { cwd: this.projectBasePath, file: this.configPathInput },
+          { cwd: this.projectBasePath, file: configPath },
         )) as LoadedCommitlintConfig;
       } else {
         throw new Error(
-          `Specified configuration file was not found at: ${this.configPathInput}`,
+          `Specified configuration file was not found at: ${configPath}`,
         );
       }
     } else {
@@ -120,33 +155,77 @@ export class Linter {
   /**
    * Executes the end-to-end linting process. This method first loads the
    * configuration, then lints each provided commit message against the resolved
-   * rules, and finally returns a structured `Results` object.
+   * rules, and finally returns a structured `Results` object. Commits that
+   * name a configuration of their own are linted against that configuration
+   * instead, each distinct one being loaded only once. Commits that name
+   * several must satisfy all of them, and their problems are combined. The
+   * rules of {@link createGitHubPlugin}, which look at the metadata of the
+   * commit, are available to every configuration. Scopes derived from the
+   * layout of the repository replace the list of `scope-enum`, and its
+   * problems name the closest allowed scope.
    *
    * @returns A promise that resolves to a `Results` instance containing the
    * detailed outcome of the linting for all processed commits.
    */
   public async lint(): Promise<Results> {
-    const loadedConfig = await this.loadEffectiveConfig();
+    const loadedConfig = await this.loadEffectiveConfig(this.configPathInput);
+    const overrideConfigs = new Map<string, Promise<LoadedCommitlintConfig>>();
+    const configFor = (configPath: string | undefined) => {
+      if (!configPath || configPath === this.configPathInput) {
+        return Promise.resolve(loadedConfig);
+      } else {
+        if (!overrideConfigs.has(configPath)) {
+          overrideConfigs.set(configPath, this.loadEffectiveConfig(configPath));
+        }
+        return overrideConfigs.get(configPath)!;
+      }
+    };
 
     const lintingPromises = this.commitsToLint.map(async (commit) => {
-      const lintResult = await lintLib(
-        commit.message,
-        loadedConfig.rules as QualifiedRules,
-        {
-          parserOpts:
-            (loadedConfig.parserPreset?.parserOpts as
+      const outcomes = await Promise.all(
+        (commit.configPaths?.length
+          ? commit.configPaths
+          : [commit.configPath]
+        ).map(async (configPath) => {
+          const commitConfig = await configFor(configPath);
+          const rules = commitConfig.rules as QualifiedRules;
+          const parserOpts =
+            (commitConfig.parserPreset?.parserOpts as
               | ActualParserOptions
-              | undefined) ?? {},
-          plugins: loadedConfig.plugins ?? {},
-          ignores: loadedConfig.ignores ?? [],
-          defaultIgnores: loadedConfig.defaultIgnores ?? true,
-          helpUrl: this.helpUrlInput || loadedConfig.helpUrl,
-        },
+              | undefined) ?? {};
+          const outcome = await lintLib(
+            commit.message,
+            this.scopes ? withScopes(rules, this.scopes) : rules,
+            {
+              parserOpts,
+              plugins: {
+                github: createGitHubPlugin(commit, this.issueResolver),
+                ...commitConfig.plugins,
+              },
+              ignores: commitConfig.ignores ?? [],
+              defaultIgnores: commitConfig.defaultIgnores ?? true,
+              helpUrl: this.helpUrlInput || commitConfig.helpUrl,
+            },
+          );
+          return this.scopes
+            ? suggestScopes(outcome, commit.message, parserOpts, this.scopes)
+            : outcome;
+        }),
       );
 
       return {
-        ...lintResult,
+        ...combineOutcomes(outcomes),
+        configs: commit.configPaths?.map((configPath) =>
+          path.relative(this.projectBasePath, configPath),
+        ),
         hash: commit.hash,
+        label: commit.label,
+        author: commit.author,
+        committer: commit.committer,
+        parentCount: commit.parentCount,
+        timestamp: commit.timestamp,
+        verification: commit.verification,
+        htmlUrl: commit.htmlUrl,
       };
     });
 
@@ -156,3 +235,29 @@ export class Linter {
     return new Results(results, finalHelpUrl);
   }
 }
+
+/**
+ * Combines the outcomes of linting a message against several configurations
+ * into one, which is only valid if every one of them is. Problems reported
+ * alike by more than one configuration are listed once.
+ *
+ * @param outcomes The outcomes of linting the message, at least one.
+ * @returns The combined outcome.
+ */
+function combineOutcomes(outcomes: LintOutcome[]): LintOutcome {
+  const unique = (problems: LintOutcome['errors']) =>
+    problems.filter(
+      (problem, index) =>
+        problems.findIndex(
+          (other) =>
+            other.name === problem.name && other.message === problem.message,
+        ) === index,
+    );
+
+  return {
+    input: outcomes[0].input,
+    valid: outcomes.every((outcome) => outcome.valid),
+    errors: unique(outcomes.flatMap((outcome) => outcome.errors)),
+    warnings: unique(outcomes.flatMap((outcome) => outcome.warnings)),
+  };
+}
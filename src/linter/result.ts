@@ -90,6 +90,6 @@ export class Results {
    * is responsible for rendering the results.
    */
   public async format(formatter: Formatter): Promise<void> {
-    formatter.format(this);
+    await formatter.format(this);
   }
 }
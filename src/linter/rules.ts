@@ -0,0 +1,268 @@
+import type {
+  AsyncRule,
+  Plugin,
+  RuleConfigCondition,
+  SyncRule,
+} from '@commitlint/types';
+import type { CommitIdentity, CommitToLint, IIssueResolver } from '../types.js';
+
+/**
+ * A trailer of a commit message, such as `Signed-off-by: Jane <jane@x.org>`.
+ */
+interface Trailer {
+  key: string;
+  value: string;
+}
+
+/**
+ * Matches an identity of the form `Name <email>`, as used by the
+ * `Signed-off-by` and `Co-authored-by` trailers.
+ */
+const IDENTITY_PATTERN = /^(\S.*?)\s*<([^<>\s@]+@[^<>\s@]+)>$/;
+
+/**
+ * Matches a line of a trailer block, capturing the key and the value.
+ */
+const TRAILER_PATTERN = /^([A-Za-z0-9-]+):\s*(.*)$/;
+
+/**
+ * Reads the trailers of a commit message, which git and GitHub only
+ * recognise in the last paragraph of it, after the header and body.
+ *
+ * @param message The commit message.
+ * @returns The trailers, in the order they are listed.
+ */
+function parseTrailers(message: string): Trailer[] {
+  const paragraphs = message.trim().split(/\r?\n\s*\r?\n/);
+  if (paragraphs.length < 2) {
+    return [];
+  }
+
+  return paragraphs[paragraphs.length - 1].split(/\r?\n/).flatMap((line) => {
+    const match = TRAILER_PATTERN.exec(line.trim());
+    return match ? [{ key: match[1], value: match[2].trim() }] : [];
+  });
+}
+
+/**
+ * Determines whether the identity in a trailer is that of the author or
+ * committer of a commit. The email address is compared case insensitively.
+ *
+ * @param name The name in the trailer.
+ * @param email The email address in the trailer.
+ * @param identity The author or committer of the commit.
+ * @returns `true` if both the name and the email address match.
+ */
+function isIdentity(
+  name: string,
+  email: string,
+  identity: CommitIdentity | undefined,
+): boolean {
+  return (
+    identity?.name === name &&
+    identity.email?.toLowerCase() === email.toLowerCase()
+  );
+}
+
+/**
+ * Creates a commitlint plugin with rules that look beyond the message at the
+ * commit as GitHub reports it, such as who authored it. The rules are bound
+ * to the commit being linted, as commitlint only passes them the parsed
+ * message. They only apply to commits, so messages such as pull request
+ * titles always satisfy them, as do commits whose source does not report
+ * the metadata a rule needs, except for `signature-verified`.
+ *
+ * The rules are:
+ *
+ * - `signed-off-by-author`: the message carries a `Signed-off-by` trailer
+ *   naming the author or committer of the commit, as the DCO requires.
+ * - `co-authored-by-format`: every `Co-authored-by` trailer names a
+ *   co-author as `Name <email>` and is placed in the trailer block, where
+ *   GitHub recognises it.
+ * - `signature-verified`: GitHub verified the signature of the commit. The
+ *   reason GitHub gives otherwise, such as `unsigned` or `expired_key`, is
+ *   reported. Commits whose source does not report signatures fail it, as
+ *   their signature cannot be checked, unless the rule is negated.
+ * - `references-exist`: every issue the message refers to, such as `#123`,
+ *   is an open issue or pull request of the repository being linted. Issues
+ *   referred to with a closing keyword, such as `Closes #123`, may also be
+ *   closed, as merging the commit closes them.
+ *
+ * @param commit The commit being linted.
+ * @param issues Looks up the issues the message refers to, or `null` if
+ * they cannot be looked up, such as without a token.
+ * @returns The plugin.
+ */
+export function createGitHubPlugin(
+  commit: CommitToLint,
+  issues: IIssueResolver | null = null,
+): Plugin {
+  const isCommit = commit.label === undefined;
+  const trailers = parseTrailers(commit.message);
+
+  const signedOffByAuthor: SyncRule = (
+    _parsed,
+    when: RuleConfigCondition = 'always',
+  ) => {
+    const negated = when === 'never';
+    const signOffs = trailers.filter(
+      ({ key }) => key.toLowerCase() === 'signed-off-by',
+    );
+    const malformed = signOffs.find(
+      ({ value }) => !IDENTITY_PATTERN.test(value),
+    );
+
+    if (!isCommit) {
+      return [true];
+    } else if (malformed && !negated) {
+      return [
+        false,
+        `Signed-off-by trailer must be of the form "Name <email>", but received "${malformed.value}"`,
+      ];
+    }
+
+    const { author, committer } = commit;
+    const known = Boolean(author?.email || committer?.email);
+    const signedOff = signOffs.some(({ value }) => {
+      const match = IDENTITY_PATTERN.exec(value);
+      return (
+        match !== null &&
+        (!known ||
+          isIdentity(match[1], match[2], author) ||
+          isIdentity(match[1], match[2], committer))
+      );
+    });
+    const expected = author?.email
+      ? `, such as "Signed-off-by: ${author.name ?? ''} <${author.email}>"`
+      : '';
+
+    return [
+      negated ? !signedOff : signedOff,
+      negated
+        ? 'message must not be signed off by its author or committer'
+        : `message must be signed off by its author or committer${expected}`,
+    ];
+  };
+
+  const coAuthoredByFormat: SyncRule = (
+    _parsed,
+    when: RuleConfigCondition = 'always',
+  ) => {
+    const negated = when === 'never';
+    const coAuthors = trailers.filter(
+      ({ key }) => key.toLowerCase() === 'co-authored-by',
+    );
+    const mentions = commit.message
+      .split(/\r?\n/)
+      .filter((line) => /^co-authored-by:/i.test(line.trim())).length;
+
+    if (!isCommit) {
+      return [true];
+    } else if (negated) {
+      return [mentions === 0, 'message must not have Co-authored-by trailers'];
+    }
+
+    const malformed = coAuthors.find(
+      ({ value }) => !IDENTITY_PATTERN.test(value),
+    );
+    if (malformed) {
+      return [
+        false,
+        `Co-authored-by trailer must be of the form "Name <email>", but received "${malformed.value}"`,
+      ];
+    } else if (mentions > coAuthors.length) {
+      return [
+        false,
+        'Co-authored-by trailers must be placed in the last paragraph of the message',
+      ];
+    } else {
+      return [true];
+    }
+  };
+
+  const signatureVerified: SyncRule = (
+    _parsed,
+    when: RuleConfigCondition = 'always',
+  ) => {
+    const { verification } = commit;
+
+    if (!isCommit) {
+      return [true];
+    } else if (verification === undefined) {
+      return [
+        when === 'never',
+        'signature unknown (source does not report verification)',
+      ];
+    } else if (when === 'never') {
+      return [!verification.verified, 'signature must not be verified'];
+    } else {
+      return [
+        verification.verified,
+        `signature is not verified: ${verification.reason}`,
+      ];
+    }
+  };
+
+  const referencesExist: AsyncRule = async (
+    parsed,
+    when: RuleConfigCondition = 'always',
+  ) => {
+    if (!isCommit || issues === null) {
+      return [true];
+    }
+
+    const repository = `${issues.owner}/${issues.repo}`;
+    const references = [
+      ...new Map(
+        parsed.references.map((reference) => {
+          const named = reference.owner
+            ? `${reference.owner}/${reference.repository}`
+            : (reference.repository ?? '');
+          const text = `${named}${reference.prefix}${reference.issue}`;
+          return [
+            text,
+            {
+              named,
+              text,
+              issueNumber: Number(reference.issue),
+              closing: Boolean(reference.action),
+            },
+          ];
+        }),
+      ).values(),
+    ];
+    const problems = await Promise.all(
+      references.map(async ({ named, text, issueNumber, closing }) => {
+        if (named && named.toLowerCase() !== repository.toLowerCase()) {
+          return `${text} must refer to an issue of ${repository}`;
+        }
+
+        const issue = await issues.getIssue(issueNumber);
+        if (issue === null) {
+          return `${text} does not exist in ${repository}`;
+        } else if (issue.state === 'closed' && !closing) {
+          return `${text} is closed`;
+        } else {
+          return null;
+        }
+      }),
+    );
+    const problem = problems.filter((item) => item !== null).join(', ');
+
+    return when === 'never'
+      ? [
+          problems.every((item) => item !== null),
+          `message must not refer to open issues of ${repository}`,
+        ]
+      : [problem === '', `references are invalid: ${problem}`];
+  };
+
+  return {
+    rules: {
+      'signed-off-by-author': signedOffByAuthor,
+      'co-authored-by-format': coAuthoredByFormat,
+      'signature-verified': signatureVerified,
+      'references-exist': referencesExist,
+    },
+  };
+}
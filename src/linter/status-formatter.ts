@@ -0,0 +1,106 @@
+import { createOctokit } from '../octokit.js';
+import type { OctokitInstance } from '../types.js';
+import { Formatter } from './index.js';
+import { Results } from './result.js';
+
+/**
+ * The context under which the commit status is reported.
+ */
+const STATUS_CONTEXT = 'commitlint';
+
+/**
+ * A formatter that publishes the linting results as a commit status on the
+ * head of a pull request. The job summary of a `workflow_run` workflow is only
+ * shown on that run, so the status is what makes the results visible on a
+ * pull request from a fork.
+ */
+export default class CommitStatusFormatter implements Formatter {
+  /**
+   * The GitHub token for API authentication, or a prebuilt Octokit instance.
+   * @private
+   */
+  private readonly token: string | OctokitInstance;
+
+  /**
+   * The owner of the repository the status is created in.
+   * @private
+   */
+  private readonly owner: string;
+
+  /**
+   * The name of the repository the status is created in.
+   * @private
+   */
+  private readonly repo: string;
+
+  /**
+   * The SHA of the commit the status is created for.
+   * @private
+   */
+  private readonly sha: string;
+
+  /**
+   * The URL the status links to, typically the workflow run.
+   * @private
+   */
+  private readonly targetUrl: string | undefined;
+
+  /**
+   * Whether errors cause the status to fail.
+   * @private
+   */
+  private readonly failOnErrors: boolean;
+
+  /**
+   * Whether warnings cause the status to fail.
+   * @private
+   */
+  private readonly failOnWarnings: boolean;
+
+  /**
+   * Constructs a new CommitStatusFormatter instance.
+   *
+   * @param token The GitHub token, which must be allowed to write statuses.
+   * @param owner The owner of the repository.
+   * @param repo The name of the repository.
+   * @param sha The SHA of the commit the status is created for.
+   * @param failOnErrors Whether errors cause the status to fail.
+   * @param failOnWarnings Whether warnings cause the status to fail.
+   * @param targetUrl An optional URL the status links to.
+   */
+  constructor(
+    token: string | OctokitInstance,
+    owner: string,
+    repo: string,
+    sha: string,
+    failOnErrors: boolean,
+    failOnWarnings: boolean,
+    targetUrl?: string,
+  ) {
+    this.token = token;
+    this.owner = owner;
+    this.repo = repo;
+    this.sha = sha;
+    this.failOnErrors = failOnErrors;
+    this.failOnWarnings = failOnWarnings;
+    this.targetUrl = targetUrl;
+  }
+
+  public async format(results: Results): Promise<void> {
+    const failed =
+      (results.hasErrors && this.failOnErrors) ||
+      (results.hasOnlyWarnings && this.failOnWarnings);
+
+    const octokit =
+      typeof this.token === 'string' ? createOctokit(this.token) : this.token;
+    await octokit.rest.repos.createCommitStatus({
+      owner: this.owner,
+      repo: this.repo,
+      sha: this.sha,
+      state: failed ? 'failure' : 'success',
+      context: STATUS_CONTEXT,
+      description: `${results.errorCount} errors and ${results.warningCount} warnings in ${results.checkedCount} commit messages`,
+      target_url: this.targetUrl,
+    });
+  }
+}
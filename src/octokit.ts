@@ -0,0 +1,249 @@
+/* eslint-disable testing-library/no-debugging-utils */
+import { debug } from '@actions/core';
+import { getOctokit } from '@actions/github';
+import { rootCertificates } from 'node:tls';
+import { EnvHttpProxyAgent, fetch as undiciFetch } from 'undici';
+import type { OctokitInstance } from './types.js';
+
+/**
+ * The options accepted by {@link getOctokit}, such as the base URL.
+ */
+export type OctokitOptions = NonNullable<Parameters<typeof getOctokit>[1]>;
+
+/**
+ * Options that control how failed requests to the GitHub API are retried.
+ */
+export interface RetryOptions {
+  /**
+   * The maximum number of times a request is retried. Defaults to 3.
+   */
+  maxRetries?: number;
+
+  /**
+   * The longest time, in milliseconds, to wait before retrying a request.
+   * Requests that could only be retried after waiting longer fail right away
+   * instead. Defaults to one minute.
+   */
+  maxWait?: number;
+
+  /**
+   * The delay, in milliseconds, before the first retry of a request without
+   * rate limit headers, which doubles with every further retry. Defaults to
+   * one second.
+   */
+  baseDelay?: number;
+}
+
+/**
+ * Options that control where and how requests to the GitHub API are sent,
+ * such as to a GitHub Enterprise Server instance behind a proxy.
+ */
+export interface ConnectionOptions {
+  /**
+   * The base URL of the REST API, such as `https://ghes.example.com/api/v3`.
+   * The GraphQL endpoint is derived from it.
+   */
+  apiUrl: string;
+
+  /**
+   * The URL of the proxy that requests are sent through. Defaults to the
+   * `https_proxy` and `http_proxy` environment variables, and hosts listed
+   * in `no_proxy` are always reached directly.
+   */
+  proxy?: string;
+
+  /**
+   * PEM encoded certificates of further certificate authorities to trust,
+   * in addition to the bundled root certificates.
+   */
+  caCertificates?: string;
+}
+
+/**
+ * Builds the options for {@link createOctokit} that send requests to the
+ * given API URL, through a proxy if one is configured, and trust the given
+ * certificate authorities.
+ *
+ * @param connection - The options that control how requests are sent.
+ * @returns The options to pass to {@link createOctokit}.
+ */
+export function getConnectionOptions(
+  connection: ConnectionOptions,
+): OctokitOptions {
+  const tls = connection.caCertificates
+    ? { ca: [...rootCertificates, connection.caCertificates] }
+    : {};
+  const dispatcher = new EnvHttpProxyAgent({
+    httpProxy: connection.proxy,
+    httpsProxy: connection.proxy,
+    connect: tls,
+    requestTls: tls,
+    proxyTls: tls,
+  });
+
+  return {
+    baseUrl: connection.apiUrl,
+    request: {
+      fetch: (url: string, init?: Parameters<typeof undiciFetch>[1]) =>
+        undiciFetch(url, { ...init, dispatcher }),
+    },
+  };
+}
+
+/**
+ * The status codes of transient failures that are worth retrying.
+ */
+const RETRYABLE_STATUSES = new Set([500, 502, 503, 504]);
+
+/**
+ * The HTTP methods whose requests may be repeated without further effect,
+ * and so are retried after a transient failure. Requests with other methods
+ * may have taken effect before failing, so they are only retried when rate
+ * limited, which GitHub does before acting on them.
+ */
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+/**
+ * How long to wait before retrying a request hit by a secondary rate limit
+ * that does not say when to retry, as GitHub asks to wait at least a minute.
+ */
+const SECONDARY_RATE_LIMIT_DELAY = 60_000;
+
+/**
+ * The shape of the errors thrown by Octokit for failed requests.
+ */
+interface RequestErrorLike {
+  status: number;
+  message: string;
+  response?: { headers: Record<string, string | number | undefined> };
+}
+
+/**
+ * Determines whether an error was thrown by Octokit for a failed request.
+ *
+ * @param error - The error to check.
+ * @returns `true` if the error carries the status of the response.
+ */
+function isRequestError(error: unknown): error is RequestErrorLike {
+  return (
+    error instanceof Error &&
+    typeof (error as Partial<RequestErrorLike>).status === 'number'
+  );
+}
+
+/**
+ * Determines whether a request may be retried after a transient failure.
+ * GraphQL requests are sent with `POST`, but the action only sends queries,
+ * which are as safe to repeat as a `GET`.
+ *
+ * @param method - The HTTP method of the request.
+ * @param url - The URL of the request, relative to the base URL or not.
+ * @returns `true` if repeating the request has no further effect.
+ */
+function isIdempotent(method: string, url: string): boolean {
+  return (
+    IDEMPOTENT_METHODS.has(method.toUpperCase()) ||
+    url === '/graphql' ||
+    url.endsWith('/graphql')
+  );
+}
+
+/**
+ * Determines how long to wait before retrying a failed request. Rate limited
+ * requests wait as long as GitHub asks through the `retry-after` header,
+ * until the time in the `x-ratelimit-reset` header once the rate limit is
+ * exhausted, or a minute for secondary rate limits that say neither. Other
+ * transient failures back off exponentially, but only for idempotent
+ * requests.
+ *
+ * @param error - The error thrown for the failed request.
+ * @param idempotent - Whether repeating the request has no further effect.
+ * @param attempt - The number of the retry about to be made, starting at 1.
+ * @param options - The options that control retries.
+ * @returns The delay in milliseconds, or `null` if the request must not be
+ * retried.
+ */
+function getRetryDelay(
+  error: unknown,
+  idempotent: boolean,
+  attempt: number,
+  options: Required<RetryOptions>,
+): number | null {
+  if (!isRequestError(error) || attempt > options.maxRetries) {
+    return null;
+  }
+
+  const headers = error.response?.headers ?? {};
+  const retryAfter = Number(headers['retry-after']);
+  const exhausted = String(headers['x-ratelimit-remaining']) === '0';
+  const reset = Number(headers['x-ratelimit-reset']);
+  const secondary =
+    error.status === 403 && /secondary rate limit/i.test(error.message);
+  const rateLimited =
+    error.status === 429 ||
+    (error.status === 403 &&
+      (!Number.isNaN(retryAfter) || exhausted || secondary));
+
+  if (!rateLimited && !(idempotent && RETRYABLE_STATUSES.has(error.status))) {
+    return null;
+  }
+
+  const delay = !Number.isNaN(retryAfter)
+    ? retryAfter * 1000
+    : exhausted && !Number.isNaN(reset)
+      ? Math.max(reset * 1000 - Date.now(), 0)
+      : secondary
+        ? SECONDARY_RATE_LIMIT_DELAY
+        : options.baseDelay * 2 ** (attempt - 1);
+
+  return delay > options.maxWait ? null : delay;
+}
+
+/**
+ * Creates the Octokit instance shared by the fetchers and formatters. Failed
+ * requests are retried when they failed transiently, such as with a 502 or
+ * a secondary rate limit, and each retry is logged as a debug message in
+ * whichever log group is open at the time.
+ *
+ * @param token - The GitHub token for API authentication.
+ * @param retryOptions - The options that control retries.
+ * @param options - Further options passed to {@link getOctokit}.
+ * @returns The Octokit instance.
+ */
+export function createOctokit(
+  token: string,
+  retryOptions: RetryOptions = {},
+  options: OctokitOptions = {},
+): OctokitInstance {
+  const resolvedOptions: Required<RetryOptions> = {
+    maxRetries: retryOptions.maxRetries ?? 3,
+    maxWait: retryOptions.maxWait ?? 60_000,
+    baseDelay: retryOptions.baseDelay ?? 1_000,
+  };
+
+  const octokit = getOctokit(token, options);
+  octokit.hook.wrap('request', async (request, requestOptions) => {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await request(requestOptions);
+      } catch (error: unknown) {
+        const delay = getRetryDelay(
+          error,
+          isIdempotent(requestOptions.method, requestOptions.url),
+          attempt,
+          resolvedOptions,
+        );
+        if (delay === null) {
+          throw error;
+        }
+
+        debug(
+          `Retrying ${requestOptions.method} ${requestOptions.url} in ${delay}ms (attempt ${attempt} of ${resolvedOptions.maxRetries}): ${(error as Error).message}`,
+        );
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  });
+
+  return octokit;
+}
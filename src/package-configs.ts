@@ -0,0 +1,219 @@
+/* eslint-disable testing-library/no-debugging-utils */
+import { debug } from '@actions/core';
+import { cosmiconfig, defaultLoaders, type PublicExplorer } from 'cosmiconfig';
+import { execFileSync } from 'node:child_process';
+import path from 'node:path';
+import type { CommitToLint, OctokitInstance } from './types.js';
+
+/**
+ * Lists the paths, relative to the root of the repository, of the files
+ * changed by a commit.
+ */
+export type ChangedFilesLister = (hash: string) => Promise<string[]>;
+
+/**
+ * Creates a {@link ChangedFilesLister} that reads the files changed by a
+ * commit from the GitHub API. Merge commits are compared against their
+ * first parent.
+ *
+ * @param octokit - The Octokit instance used for the API calls.
+ * @param owner - The owner of the repository.
+ * @param repo - The name of the repository.
+ * @returns The lister.
+ */
+export function listChangedFilesViaApi(
+  octokit: OctokitInstance,
+  owner: string,
+  repo: string,
+): ChangedFilesLister {
+  return async (hash) => {
+    const files = await octokit.paginate(
+      octokit.rest.repos.getCommit,
+      { owner, repo, ref: hash, per_page: 100 },
+      (response) => response.data.files ?? [],
+    );
+    return files.map((file) => file.filename);
+  };
+}
+
+/**
+ * Creates a {@link ChangedFilesLister} that reads the files changed by a
+ * commit from the local git repository with `git diff-tree`. Merge commits
+ * are compared against their first parent.
+ *
+ * @param workingDirectory - The directory of the git repository.
+ * @returns The lister.
+ */
+export function listChangedFilesViaGit(
+  workingDirectory: string,
+): ChangedFilesLister {
+  return async (hash) =>
+    execFileSync(
+      'git',
+      [
+        'diff-tree',
+        '--no-commit-id',
+        '--name-only',
+        '-r',
+        '-m',
+        '--first-parent',
+        '--root',
+        '-z',
+        '--end-of-options',
+        hash,
+      ],
+      { cwd: workingDirectory, encoding: 'utf8', maxBuffer: 64 * 1024 * 1024 },
+    )
+      .split('\0')
+      .filter((file) => file.length > 0);
+}
+
+/**
+ * Creates the cosmiconfig explorer that looks for the configurations of the
+ * packages of a monorepo. Unlike the explorer of the default configuration,
+ * it uses the plain loaders of cosmiconfig, which neither write a
+ * `package.json` nor run `npm install` in every package directory searched,
+ * where a `package.json` is always found.
+ *
+ * @returns The explorer.
+ */
+export function createPackageConfigExplorer(): PublicExplorer {
+  return cosmiconfig('commitlint', { loaders: defaultLoaders });
+}
+
+/**
+ * Picks the commitlint configurations of a monorepo that each commit must
+ * satisfy: for every file the commit changes, the nearest configuration in
+ * the directories above it, up to the root of the repository, where the
+ * default configuration applies. A commit touching several packages must
+ * satisfy the configuration of each of them.
+ */
+export class PackageConfigResolver {
+  /**
+   * The cosmiconfig explorer used to look for configurations, which only
+   * searches the directory it is given.
+   * @private
+   */
+  private readonly explorer: PublicExplorer;
+
+  /**
+   * The root of the repository, above which no configuration is looked for.
+   * @private
+   */
+  private readonly workingDirectory: string;
+
+  /**
+   * The path of the default configuration, found at the root.
+   * @private
+   */
+  private readonly rootConfigPath: string;
+
+  /**
+   * Lists the files changed by a commit.
+   * @private
+   */
+  private readonly listChangedFiles: ChangedFilesLister;
+
+  /**
+   * The nearest configuration of each directory looked at so far.
+   * @private
+   */
+  private readonly nearestConfigs = new Map<string, Promise<string>>();
+
+  /**
+   * Constructs a new PackageConfigResolver instance.
+   *
+   * @param explorer The cosmiconfig explorer used to look for configurations.
+   * @param workingDirectory The root of the repository.
+   * @param rootConfigPath The path of the default configuration.
+   * @param listChangedFiles Lists the files changed by a commit.
+   */
+  constructor(
+    explorer: PublicExplorer,
+    workingDirectory: string,
+    rootConfigPath: string,
+    listChangedFiles: ChangedFilesLister,
+  ) {
+    this.explorer = explorer;
+    this.workingDirectory = path.resolve(workingDirectory);
+    this.rootConfigPath = rootConfigPath;
+    this.listChangedFiles = listChangedFiles;
+  }
+
+  /**
+   * Assigns to each commit the configurations of the files it changes.
+   * Commits that change no files, such as empty ones, get the default
+   * configuration, while messages that are not commits, such as pull
+   * request titles, keep the configuration they had.
+   *
+   * @param commits The commits to lint.
+   * @returns A promise that resolves to the commits, each carrying the paths
+   * of the configurations it must satisfy.
+   */
+  public async resolve(
+    commits: ReadonlyArray<CommitToLint>,
+  ): Promise<CommitToLint[]> {
+    return Promise.all(
+      commits.map(async (commit) => {
+        if (commit.label !== undefined) {
+          return commit;
+        }
+
+        const files = await this.listChangedFiles(commit.hash);
+        if (files.length === 0) {
+          debug(`Commit ${commit.hash} changes no files.`);
+          return { ...commit, configPaths: [this.rootConfigPath] };
+        }
+
+        const configPaths = [
+          ...new Set(
+            await Promise.all(
+              files.map((file) =>
+                this.findNearestConfig(
+                  path.dirname(path.resolve(this.workingDirectory, file)),
+                ),
+              ),
+            ),
+          ),
+        ].sort();
+        debug(
+          `Commit ${commit.hash} is linted against ${configPaths.join(', ')}.`,
+        );
+        return { ...commit, configPaths };
+      }),
+    );
+  }
+
+  /**
+   * Finds the nearest configuration in a directory or the directories above
+   * it, stopping at the root of the repository.
+   *
+   * @param directory The absolute path of the directory to start from.
+   * @returns A promise that resolves to the path of the configuration.
+   * @private
+   */
+  private findNearestConfig(directory: string): Promise<string> {
+    const relative = path.relative(this.workingDirectory, directory);
+    if (
+      relative === '' ||
+      relative.startsWith('..') ||
+      path.isAbsolute(relative)
+    ) {
+      return Promise.resolve(this.rootConfigPath);
+    }
+
+    if (!this.nearestConfigs.has(directory)) {
+      this.nearestConfigs.set(
+        directory,
+        this.explorer
+          .search(directory)
+          .then((result) =>
+            result !== null && !result.isEmpty
+              ? result.filepath
+              : this.findNearestConfig(path.dirname(directory)),
+          ),
+      );
+    }
+    return this.nearestConfigs.get(directory)!;
+  }
+}
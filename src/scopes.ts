@@ -0,0 +1,331 @@
+/* eslint-disable testing-library/no-debugging-utils */
+import { debug } from '@actions/core';
+import parse from '@commitlint/parse';
+import {
+  RuleConfigSeverity,
+  type LintOutcome,
+  type QualifiedRules,
+} from '@commitlint/types';
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import type { ActualParserOptions, ScopeSource } from './types.js';
+
+/**
+ * The places GitHub looks for a CODEOWNERS file, in the order it does.
+ */
+const CODEOWNERS_PATHS = [
+  '.github/CODEOWNERS',
+  'CODEOWNERS',
+  'docs/CODEOWNERS',
+];
+
+/**
+ * The delimiters that separate the scopes of a commit with several, which
+ * `scope-enum` checks one by one.
+ */
+const SCOPE_DELIMITERS = /\/|\\|, ?/;
+
+/**
+ * Lists the names of the directories directly inside a directory, leaving
+ * out hidden ones and `node_modules`.
+ *
+ * @param directory The absolute path of the directory.
+ * @returns The names of the directories, or none if it does not exist.
+ */
+function listDirectories(directory: string): string[] {
+  if (!existsSync(directory)) {
+    return [];
+  }
+
+  return readdirSync(directory, { withFileTypes: true })
+    .filter(
+      (entry) =>
+        entry.isDirectory() &&
+        !entry.name.startsWith('.') &&
+        entry.name !== 'node_modules',
+    )
+    .map((entry) => entry.name);
+}
+
+/**
+ * Converts a segment of a workspace glob, such as `*` or `pkg-*`, into a
+ * regular expression.
+ *
+ * @param segment The segment of the glob.
+ * @returns The regular expression matching the names of directories.
+ */
+function segmentPattern(segment: string): RegExp {
+  const escaped = segment
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('[^/]*');
+  return new RegExp(`^${escaped}$`);
+}
+
+/**
+ * Expands a workspace glob, such as `packages/*` or `apps/**`, into the
+ * directories it matches. `*` matches within a segment and `**` matches any
+ * number of nested directories.
+ *
+ * @param directory The absolute path of the directory the glob is relative to.
+ * @param segments The remaining segments of the glob.
+ * @returns The absolute paths of the matched directories.
+ */
+function expandGlob(directory: string, segments: string[]): string[] {
+  if (segments.length === 0) {
+    return [directory];
+  }
+
+  const [segment, ...rest] = segments;
+  if (segment === '**') {
+    return [
+      ...expandGlob(directory, rest),
+      ...listDirectories(directory).flatMap((name) =>
+        expandGlob(path.join(directory, name), segments),
+      ),
+    ];
+  } else if (segment.includes('*')) {
+    const pattern = segmentPattern(segment);
+    return listDirectories(directory)
+      .filter((name) => pattern.test(name))
+      .flatMap((name) => expandGlob(path.join(directory, name), rest));
+  } else {
+    return expandGlob(path.join(directory, segment), rest);
+  }
+}
+
+/**
+ * Derives scopes from the names of the directories directly under each of
+ * the roots, such as `packages`.
+ *
+ * @param workingDirectory The root of the repository.
+ * @param roots The directories, relative to the repository, whose
+ * subdirectories are scopes.
+ * @returns The scopes.
+ */
+export function scopesFromDirectories(
+  workingDirectory: string,
+  roots: ReadonlyArray<string>,
+): string[] {
+  return roots.flatMap((root) =>
+    listDirectories(path.resolve(workingDirectory, root)),
+  );
+}
+
+/**
+ * Derives scopes from the `workspaces` of the `package.json` at the root of
+ * the repository: the name of the directory of each workspace, which must
+ * contain a `package.json`. Negated globs exclude workspaces.
+ *
+ * @param workingDirectory The root of the repository.
+ * @returns The scopes.
+ * @throws {Error} If the `package.json` cannot be read.
+ */
+export function scopesFromWorkspaces(workingDirectory: string): string[] {
+  const manifestPath = path.join(workingDirectory, 'package.json');
+  if (!existsSync(manifestPath)) {
+    return [];
+  }
+
+  const { workspaces } = JSON.parse(readFileSync(manifestPath, 'utf8')) as {
+    workspaces?: string[] | { packages?: string[] };
+  };
+  const globs =
+    (Array.isArray(workspaces) ? workspaces : workspaces?.packages) ?? [];
+  const expand = (glob: string) =>
+    expandGlob(
+      workingDirectory,
+      glob
+        .replace(/^\.\//, '')
+        .split('/')
+        .filter((segment) => segment !== ''),
+    );
+
+  const excluded = new Set(
+    globs
+      .filter((glob) => glob.startsWith('!'))
+      .flatMap((glob) => expand(glob.substring(1))),
+  );
+  return globs
+    .filter((glob) => !glob.startsWith('!'))
+    .flatMap(expand)
+    .filter(
+      (directory) =>
+        !excluded.has(directory) &&
+        existsSync(path.join(directory, 'package.json')),
+    )
+    .map((directory) => path.basename(directory));
+}
+
+/**
+ * Derives scopes from the names of the sections of the CODEOWNERS file,
+ * such as `[Frontend]` or the optional `^[Docs]`.
+ *
+ * @param workingDirectory The root of the repository.
+ * @returns The scopes.
+ */
+export function scopesFromCodeowners(workingDirectory: string): string[] {
+  const codeownersPath = CODEOWNERS_PATHS.map((candidate) =>
+    path.join(workingDirectory, candidate),
+  ).find((candidate) => existsSync(candidate));
+  if (codeownersPath === undefined) {
+    return [];
+  }
+
+  return readFileSync(codeownersPath, 'utf8')
+    .split(/\r?\n/)
+    .flatMap((line) => {
+      const match = /^\^?\[([^\]]+)\]/.exec(line.trim());
+      return match ? [match[1].trim()] : [];
+    });
+}
+
+/**
+ * Derives the scopes that commits may use from the layout of the repository.
+ *
+ * @param source Where the scopes are derived from.
+ * @param workingDirectory The root of the repository.
+ * @param roots The directories whose subdirectories are scopes, for the
+ * `directories` source.
+ * @returns The scopes, sorted and without duplicates, or `null` if the
+ * source is `off`.
+ * @throws {Error} If no scopes are found.
+ */
+export function deriveScopes(
+  source: ScopeSource,
+  workingDirectory: string,
+  roots: ReadonlyArray<string>,
+): string[] | null {
+  if (source === 'off') {
+    return null;
+  }
+
+  const [found, origin] =
+    source === 'directories'
+      ? [
+          scopesFromDirectories(workingDirectory, roots),
+          `the directories under ${roots.join(', ')}`,
+        ]
+      : source === 'workspaces'
+        ? [
+            scopesFromWorkspaces(workingDirectory),
+            'the workspaces of package.json',
+          ]
+        : [
+            scopesFromCodeowners(workingDirectory),
+            'the sections of CODEOWNERS',
+          ];
+  const scopes = [...new Set(found)].sort();
+
+  if (scopes.length === 0) {
+    throw new Error(`No scopes were found in ${origin}.`);
+  }
+
+  debug(`Derived the scopes ${scopes.join(', ')} from ${origin}.`);
+  return scopes;
+}
+
+/**
+ * Replaces the list of `scope-enum` with the derived scopes, keeping the
+ * severity the configuration gives the rule, or making it an error if the
+ * configuration disables or lacks it.
+ *
+ * @param rules The rules of the loaded configuration.
+ * @param scopes The derived scopes.
+ * @returns The rules with the derived scopes.
+ */
+export function withScopes(
+  rules: QualifiedRules,
+  scopes: ReadonlyArray<string>,
+): QualifiedRules {
+  const level = rules['scope-enum']?.[0] || RuleConfigSeverity.Error;
+  return { ...rules, 'scope-enum': [level, 'always', [...scopes]] };
+}
+
+/**
+ * Computes the Levenshtein distance between two strings, the number of
+ * insertions, deletions and substitutions that turn one into the other.
+ *
+ * @param from The first string.
+ * @param to The second string.
+ * @returns The distance.
+ */
+function distance(from: string, to: string): number {
+  let previous = Array.from({ length: to.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= from.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= to.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (from[i - 1] === to[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[to.length];
+}
+
+/**
+ * Finds the scope closest to the one a commit used, ignoring case.
+ *
+ * @param scope The scope the commit used.
+ * @param scopes The allowed scopes, at least one.
+ * @returns The closest allowed scope.
+ */
+export function closestScope(
+  scope: string,
+  scopes: ReadonlyArray<string>,
+): string {
+  return scopes.reduce((closest, candidate) =>
+    distance(scope.toLowerCase(), candidate.toLowerCase()) <
+    distance(scope.toLowerCase(), closest.toLowerCase())
+      ? candidate
+      : closest,
+  );
+}
+
+/**
+ * Names the closest allowed scope in the `scope-enum` problems of an
+ * outcome, for each scope of the commit that is not allowed.
+ *
+ * @param outcome The outcome of linting the message.
+ * @param message The message that was linted.
+ * @param parserOpts The parser options the message was linted with.
+ * @param scopes The allowed scopes.
+ * @returns The outcome, with suggestions added to its `scope-enum` problems.
+ */
+export async function suggestScopes(
+  outcome: LintOutcome,
+  message: string,
+  parserOpts: ActualParserOptions,
+  scopes: ReadonlyArray<string>,
+): Promise<LintOutcome> {
+  const isScopeProblem = ({ name }: LintOutcome['errors'][number]) =>
+    name === 'scope-enum';
+  if (![...outcome.errors, ...outcome.warnings].some(isScopeProblem)) {
+    return outcome;
+  }
+
+  const { scope } = await parse(message, undefined, parserOpts);
+  const suggestions = (scope ?? '')
+    .split(SCOPE_DELIMITERS)
+    .filter((part) => part !== '' && !scopes.includes(part))
+    .map((part) => `"${closestScope(part, scopes)}" instead of "${part}"`);
+  if (suggestions.length === 0) {
+    return outcome;
+  }
+
+  const suggest = (problem: LintOutcome['errors'][number]) =>
+    isScopeProblem(problem)
+      ? {
+          ...problem,
+          message: `${problem.message}; use ${suggestions.join(', ')}`,
+        }
+      : problem;
+  return {
+    ...outcome,
+    errors: outcome.errors.map(suggest),
+    warnings: outcome.warnings.map(suggest),
+  };
+}
@@ -8,9 +8,12 @@ import type {
 } from '@commitlint/types';
 import type { GitHub } from '@actions/github/lib/utils.js';
 import type {
+  CreateEvent,
   PushEvent,
   MergeGroupEvent,
   PullRequestEvent,
+  PullRequestSynchronizeEvent,
+  WorkflowRunEvent,
 } from '@octokit/webhooks-types';
 
 /**
@@ -18,12 +21,62 @@ import type {
  */
 export type OctokitInstance = InstanceType<typeof GitHub>;
 
+/**
+ * Identifies the author or committer of a commit. The login and the type of
+ * the account, such as `User` or `Bot`, are only known when the email
+ * address is linked to a GitHub account.
+ */
+export interface CommitIdentity {
+  name?: string;
+  email?: string;
+  login?: string;
+  type?: string;
+}
+
+/**
+ * The outcome of GitHub's verification of the signature of a commit. The
+ * reason is one of GitHub's verification reasons, such as `valid` or
+ * `unsigned`.
+ */
+export interface CommitVerification {
+  verified: boolean;
+  reason: string;
+}
+
 /**
  * Represents a commit with its message and hash, intended for linting.
+ * Messages that are not commits, such as a pull request title, carry a
+ * label that is shown in place of the hash. Messages that must be linted
+ * against a configuration other than the default one, such as tag messages,
+ * carry the path of that configuration. The remaining fields describe the
+ * commit as far as its source reports it, and are absent otherwise.
  */
 export interface CommitToLint {
   message: string;
   hash: string;
+  label?: string;
+  configPath?: string;
+  /**
+   * The paths of the configurations the commit must satisfy, all of them,
+   * such as those of the packages of a monorepo that it touches. Takes
+   * precedence over `configPath`.
+   */
+  configPaths?: string[];
+  author?: CommitIdentity;
+  committer?: CommitIdentity;
+  /**
+   * The number of parents of the commit; more than one for merge commits.
+   */
+  parentCount?: number;
+  /**
+   * The ISO 8601 date at which the commit was authored.
+   */
+  timestamp?: string;
+  verification?: CommitVerification;
+  /**
+   * The URL of the commit on GitHub.
+   */
+  htmlUrl?: string;
 }
 
 /**
@@ -32,36 +85,278 @@ export interface CommitToLint {
  */
 export type ActualPushEventCommit = PushEvent['commits'][number];
 
+/**
+ * Type alias for the structure of the commit objects returned by the REST
+ * API, such as by the `compareCommits` and `pulls.listCommits` endpoints.
+ */
+export type ActualApiCommit = Awaited<
+  ReturnType<OctokitInstance['rest']['pulls']['listCommits']>
+>['data'][number];
+
 /**
  * Type alias for the structure of the `merge_group` object within a GitHub
  * merge_group event payload, using official types.
  */
 export type ActualMergeGroupPayload = MergeGroupEvent['merge_group'];
 
+/**
+ * Defines the subset of the PushEvent and CreateEvent payloads relevant to
+ * the TagCommitFetcher. Push events carry the fully qualified `ref`, while
+ * create events carry the short name along with its `ref_type`.
+ */
+export type TagEventPayloadSubset = Partial<
+  Pick<PushEvent, 'ref' | 'deleted'>
+> &
+  Partial<Pick<CreateEvent, 'ref_type'>>;
+
 /**
  * Defines the subset of the PushEvent payload relevant to the
- * PushEventCommitFetcher.
+ * PushEventCommitFetcher. The `ref` is optional and used to detect pushes of
+ * tags, which are linted by their message instead. The `repository` is
+ * optional and its default branch is what new branches are compared against.
  */
 export type PushEventPayloadSubset = Pick<
   PushEvent,
   'before' | 'after' | 'commits'
->;
+> &
+  TagEventPayloadSubset & {
+    repository?: Pick<PushEvent['repository'], 'default_branch'>;
+  };
 
 /**
  * Defines the subset of the MergeGroupEvent payload relevant to the
  * MergeGroupCommitFetcher.
  */
 export type MergeGroupEventPayloadSubset = {
-  merge_group?: Pick<ActualMergeGroupPayload, 'head_sha' | 'head_commit'>;
+  merge_group?: Pick<
+    ActualMergeGroupPayload,
+    'base_sha' | 'head_sha' | 'head_commit'
+  >;
 };
 
 /**
- * Defines the subset of the PullRequestEvent payload.
+ * Type alias for the structure of the `pull_request` object within a GitHub
+ * pull_request event payload, using official types.
+ */
+export type ActualPullRequestPayload = PullRequestEvent['pull_request'];
+
+/**
+ * Defines the subset of the PullRequestEvent payload. The `pull_request`
+ * object is optional; its base and head SHAs and commit count are used to
+ * fall back to a comparison when the pull request is too large, and its title
+ * and body are used when the pull request title is linted. The `before` and
+ * `after` SHAs of `synchronize` events are used to lint only the commits
+ * pushed since the previous head.
  */
 export type PullRequestEventPayloadSubset = Pick<
   PullRequestEvent,
   'action' | 'number'
->;
+> &
+  Partial<Pick<PullRequestSynchronizeEvent, 'before' | 'after'>> & {
+    pull_request?: {
+      base: Pick<ActualPullRequestPayload['base'], 'sha'>;
+      head: Pick<ActualPullRequestPayload['head'], 'sha'>;
+      commits?: ActualPullRequestPayload['commits'];
+      title?: ActualPullRequestPayload['title'];
+      body?: ActualPullRequestPayload['body'];
+    };
+  };
+
+/**
+ * Defines the subset of the payloads of the events supported by the
+ * LocalGitCommitFetcher, from which the range of commits to log is derived.
+ */
+export type LocalGitEventPayloadSubset = Partial<PushEventPayloadSubset> &
+  MergeGroupEventPayloadSubset &
+  Pick<PullRequestEventPayloadSubset, 'pull_request'>;
+
+/**
+ * Type alias for the structure of the `workflow_run` object within a GitHub
+ * workflow_run event payload, using official types.
+ */
+export type ActualWorkflowRunPayload = WorkflowRunEvent['workflow_run'];
+
+/**
+ * Defines the subset of the WorkflowRunEvent payload used to find the pull
+ * request behind the triggering run. The `pull_requests` array is empty for
+ * pull requests from forks, so the head repository and branch are used to
+ * search for them instead.
+ */
+export type WorkflowRunEventPayloadSubset = {
+  workflow_run?: Pick<
+    ActualWorkflowRunPayload,
+    'event' | 'head_sha' | 'head_branch'
+  > & {
+    head_repository?: {
+      owner: Pick<
+        ActualWorkflowRunPayload['head_repository']['owner'],
+        'login'
+      >;
+    } | null;
+    pull_requests: (Pick<
+      ActualWorkflowRunPayload['pull_requests'][number],
+      'number'
+    > & {
+      head: Pick<
+        ActualWorkflowRunPayload['pull_requests'][number]['head'],
+        'sha'
+      >;
+    })[];
+  };
+};
+
+/**
+ * The source from which commits are read: the GitHub REST API, the GitHub
+ * GraphQL API, or the local git repository checked out in the workspace.
+ */
+export type CommitSource = 'api' | 'graphql' | 'git';
+
+/**
+ * An explicit range of commits to lint, independent of the event payload.
+ * Commits reachable from `to` but not from `from` are included.
+ */
+export interface CommitRange {
+  /**
+   * The ref or SHA the range starts after, such as the last release tag.
+   */
+  from: string;
+
+  /**
+   * The ref or SHA the range ends at, inclusive.
+   */
+  to: string;
+}
+
+/**
+ * How a message derived from the event, such as the pull request title, is
+ * linted: not at all, alongside the commits, or in place of them.
+ */
+export type MessageMode = 'off' | 'include' | 'only';
+
+/**
+ * Where the scopes allowed by `scope-enum` are derived from at run time: the
+ * directories under some roots, the workspaces of `package.json`, or the
+ * sections of `CODEOWNERS`. With `off`, the configuration's own list applies.
+ */
+export type ScopeSource = 'off' | 'directories' | 'workspaces' | 'codeowners';
+
+/**
+ * Which commits are kept when an event has more commits than the commit
+ * depth: the oldest, the newest, or none, failing the run instead.
+ */
+export type DepthMode = 'oldest' | 'newest' | 'fail';
+
+/**
+ * The maximum number of commits to lint, and how to pick them when an event
+ * has more.
+ */
+export interface CommitDepth {
+  /**
+   * The maximum number of commits to lint.
+   */
+  count: number;
+
+  /**
+   * Which commits are kept when there are more than {@link count}.
+   */
+  mode: DepthMode;
+}
+
+/**
+ * Options that influence which {@link ICommitFetcher} is selected for an
+ * event and how it is constructed.
+ */
+export interface CommitFetcherOptions {
+  /**
+   * The source from which commits are read. Defaults to `api`. The GraphQL
+   * API is only used for pull requests and explicit ranges; other events are
+   * read from the REST API.
+   */
+  source?: CommitSource;
+
+  /**
+   * The directory of the local git repository, used by fetchers that read
+   * commits from git. Defaults to the current working directory.
+   */
+  workingDirectory?: string;
+
+  /**
+   * An explicit range of commits to lint. When given, it takes precedence
+   * over the event, so any event, such as `workflow_dispatch` or `schedule`,
+   * can be linted.
+   */
+  range?: CommitRange;
+
+  /**
+   * Whether the pull request title is linted as a message of its own on
+   * pull request events. Defaults to `off`.
+   */
+  pullRequestTitle?: MessageMode;
+
+  /**
+   * Whether the pull request body is appended to the title when the title is
+   * linted. Defaults to `false`.
+   */
+  pullRequestBody?: boolean;
+
+  /**
+   * Whether the message GitHub will create when squash-merging the pull
+   * request is linted as a message of its own on pull request events.
+   * Defaults to `off`.
+   */
+  squashMessage?: MessageMode;
+
+  /**
+   * The path of the configuration that tag messages are linted against. If
+   * omitted, they are linted against the default configuration.
+   */
+  tagConfigPath?: string;
+
+  /**
+   * Whether only the commits pushed since the previous head of a pull
+   * request are linted on `synchronize` events. Defaults to `false`.
+   */
+  incremental?: boolean;
+
+  /**
+   * The ref that the pushes of new branches are compared against. If
+   * omitted, the default branch of the repository is used.
+   */
+  baseRef?: string;
+}
+
+/**
+ * The state of an issue or pull request that a commit message refers to.
+ */
+export interface ReferencedIssue {
+  number: number;
+  state: 'open' | 'closed';
+}
+
+/**
+ * Interface for looking up the issues that commit messages refer to, such as
+ * through the issues API of the repository being linted.
+ */
+export interface IIssueResolver {
+  /**
+   * The owner of the repository the issues belong to.
+   */
+  readonly owner: string;
+
+  /**
+   * The name of the repository the issues belong to.
+   */
+  readonly repo: string;
+
+  /**
+   * Looks up an issue or pull request of the repository by its number.
+   *
+   * @param issueNumber - The number of the issue.
+   * @returns A promise that resolves to the issue, or `null` if the
+   * repository has no issue with that number.
+   */
+  getIssue(issueNumber: number): Promise<ReferencedIssue | null>;
+}
 
 /**
  * Interface for commit fetching strategies. Each fetcher will implement an
@@ -74,23 +369,128 @@ export interface ICommitFetcher<TEventPayloadSubset = unknown> {
   /**
    * Fetches the relevant commits to be linted based on the GitHub event.
    *
-   * @param token - The GitHub token for API authentication.
+   * @param token - The GitHub token for API authentication, or a prebuilt
+   * Octokit instance.
    * @param owner - The owner of the repository where the event occurred.
    * @param repo - The name of the repository.
    * @param eventPayloadSubset - A subset of the GitHub webhook event payload,
    * containing only the fields relevant to this fetcher.
-   * @param issueNumber - The issue or pull request number if applicable to the
-   * event (e.g., for pull request events). Optional.
+   * @param depth - The maximum number of commits to fetch, which lets
+   * fetchers stop paging early. Optional.
    * @returns A promise that resolves to an array of {@link CommitToLint}
    * objects representing the commits to be linted.
+   * @throws If the event has more commits than the depth allows and its mode
+   * is `fail`.
    */
   fetchCommits(
-    token: string,
+    token: string | OctokitInstance,
     owner: string,
     repo: string,
     eventPayloadSubset: TEventPayloadSubset,
-    issueNumber?: number,
+    depth?: CommitDepth,
   ): Promise<CommitToLint[]>;
+
+  /**
+   * Notes gathered while fetching that should be surfaced in the job summary,
+   * such as having to fall back to a different source of commits. Optional.
+   */
+  readonly notices?: ReadonlyArray<string>;
+
+  /**
+   * Why the event has nothing to lint, such as the push of a lightweight
+   * tag, set when no commits are fetched for that reason. Such events pass,
+   * whereas those without commits otherwise fail. Optional.
+   */
+  readonly nothingToLint?: string;
+}
+
+/**
+ * Criteria by which commits are excluded from linting, based on who wrote
+ * them rather than on their message.
+ */
+export interface CommitFilterOptions {
+  /**
+   * The GitHub logins of the authors whose commits are skipped, matched
+   * case insensitively, as GitHub logins are.
+   */
+  authors?: string[];
+
+  /**
+   * Patterns matched against the email address of the author of a commit.
+   */
+  authorEmails?: RegExp[];
+
+  /**
+   * Whether commits authored by bot accounts, such as Dependabot or
+   * Renovate, are skipped.
+   */
+  bots?: boolean;
+
+  /**
+   * Whether commits with more than one parent are skipped.
+   */
+  mergeCommits?: boolean;
+}
+
+/**
+ * A commit that was excluded from linting, along with the reason for it.
+ */
+export interface SkippedCommit {
+  commit: CommitToLint;
+  reason: string;
+}
+
+/**
+ * An entry of the ignore file that waives linting of a commit that can no
+ * longer be rewritten, such as one already on a protected branch.
+ */
+export interface CommitWaiver {
+  /**
+   * The SHA of the commit, or a prefix of at least seven characters of it,
+   * in lower case.
+   */
+  sha: string;
+
+  /**
+   * Why the commit is waived, which is listed in the summary.
+   */
+  reason: string;
+
+  /**
+   * The last day, as `YYYY-MM-DD`, on which the waiver applies. Commits are
+   * linted again afterwards. Waivers without one never expire.
+   */
+  expires?: string;
+}
+
+/**
+ * A commit that was not linted because of a waiver in the ignore file.
+ */
+export interface WaivedCommit {
+  commit: CommitToLint;
+  waiver: CommitWaiver;
+}
+
+/**
+ * The credentials of a GitHub App, used to mint an installation token
+ * instead of authenticating with a raw token.
+ */
+export interface AppCredentials {
+  /**
+   * The ID or client ID of the GitHub App.
+   */
+  appId: string;
+
+  /**
+   * The PEM encoded private key of the GitHub App.
+   */
+  privateKey: string;
+
+  /**
+   * The ID of the installation to mint a token for. If omitted, the
+   * installation on the repository is looked up.
+   */
+  installationId?: number;
 }
 
 /**
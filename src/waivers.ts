@@ -0,0 +1,164 @@
+/* eslint-disable testing-library/no-debugging-utils */
+import { debug } from '@actions/core';
+import { existsSync, readFileSync } from 'node:fs';
+import type { CommitToLint, CommitWaiver, WaivedCommit } from './types.js';
+
+/**
+ * The shortest prefix of a SHA that a waiver may name, the length git itself
+ * abbreviates SHAs to, so that a waiver cannot match commits by accident.
+ */
+const MIN_SHA_LENGTH = 7;
+
+/**
+ * Parses the contents of an ignore file. Each line names the SHA of a
+ * commit, or a prefix of it, optionally followed by the day, as
+ * `YYYY-MM-DD`, the waiver expires after, and then the reason for it:
+ *
+ * ```
+ * # Pushed before the conventions were adopted.
+ * 1a2b3c4d Predates the commit conventions
+ * 5e6f7a8 2025-12-31 Hotfix pushed during the outage
+ * ```
+ *
+ * Blank lines and lines starting with `#` are ignored.
+ *
+ * @param content The contents of the ignore file.
+ * @param fileName The name of the file, used in error messages.
+ * @returns The waivers, in the order they are listed.
+ * @throws {Error} If a line names no valid SHA, expiry date or reason.
+ */
+export function parseCommitWaivers(
+  content: string,
+  fileName: string,
+): CommitWaiver[] {
+  return content.split(/\r?\n/).flatMap((rawLine, index) => {
+    const line = rawLine.trim();
+    if (line === '' || line.startsWith('#')) {
+      return [];
+    }
+
+    const [sha, ...rest] = line.split(/\s+/);
+    const expires = /^\d{4}-\d{2}-\d{2}$/.test(rest[0] ?? '')
+      ? rest.shift()
+      : undefined;
+    const reason = rest.join(' ');
+    const location = `line ${index + 1} of ${fileName}`;
+
+    if (!new RegExp(`^[0-9a-f]{${MIN_SHA_LENGTH},40}$`, 'i').test(sha)) {
+      throw new Error(
+        `Invalid waiver on ${location}. Expected a SHA of at least ${MIN_SHA_LENGTH} hexadecimal characters, but received '${sha}'.`,
+      );
+    } else if (expires !== undefined && !isValidDate(expires)) {
+      throw new Error(
+        `Invalid waiver on ${location}. Expected a valid expiry date, but received '${expires}'.`,
+      );
+    } else if (reason === '') {
+      throw new Error(
+        `Invalid waiver on ${location}. Expected a reason after the SHA.`,
+      );
+    } else {
+      return [{ sha: sha.toLowerCase(), reason, expires }];
+    }
+  });
+}
+
+/**
+ * Determines whether a `YYYY-MM-DD` string names a day that exists, which
+ * `Date.parse` alone does not, as it rolls days such as the 31st of
+ * February over into the next month.
+ *
+ * @param date The date to check.
+ * @returns `true` if the day exists, otherwise `false`.
+ */
+function isValidDate(date: string): boolean {
+  const time = Date.parse(date);
+  return !Number.isNaN(time) && new Date(time).toISOString().startsWith(date);
+}
+
+/**
+ * Reads the waivers listed in an ignore file.
+ *
+ * @param filePath The path of the ignore file.
+ * @returns The waivers, or none if the file does not exist.
+ * @throws {Error} If the file lists an invalid waiver.
+ */
+export function loadCommitWaivers(filePath: string): CommitWaiver[] {
+  if (!existsSync(filePath)) {
+    debug(`No ignore file found at ${filePath}.`);
+    return [];
+  }
+
+  return parseCommitWaivers(readFileSync(filePath, 'utf8'), filePath);
+}
+
+/**
+ * Drops the commits waived in the ignore file before they are linted, which
+ * keeps commits that cannot be rewritten from failing every later push or
+ * range that includes them. Waivers that have expired no longer apply, so
+ * their commits are linted again. Messages that are not commits, such as
+ * pull request titles, are never waived.
+ */
+export class CommitWaivers {
+  /**
+   * The waivers listed in the ignore file.
+   * @private
+   */
+  private readonly waivers: ReadonlyArray<CommitWaiver>;
+
+  /**
+   * The current day, as `YYYY-MM-DD` in UTC, against which expiry dates are
+   * compared.
+   * @private
+   */
+  private readonly today: string;
+
+  /**
+   * Constructs a new CommitWaivers instance.
+   *
+   * @param waivers The waivers listed in the ignore file.
+   * @param now The current time. Defaults to now.
+   */
+  constructor(waivers: ReadonlyArray<CommitWaiver>, now: Date = new Date()) {
+    this.waivers = waivers;
+    this.today = now.toISOString().substring(0, 10);
+  }
+
+  /**
+   * Splits the commits into those to lint and those waived.
+   *
+   * @param commits The commits to lint.
+   * @returns The commits to lint, in their original order, including those
+   * whose waiver has expired, the waived commits along with their waiver,
+   * and the commits whose waiver has expired.
+   */
+  public apply(commits: ReadonlyArray<CommitToLint>): {
+    commits: CommitToLint[];
+    waived: WaivedCommit[];
+    expired: WaivedCommit[];
+  } {
+    const included: CommitToLint[] = [];
+    const waived: WaivedCommit[] = [];
+    const expired: WaivedCommit[] = [];
+
+    for (const commit of commits) {
+      const hash = commit.hash.toLowerCase();
+      const waiver =
+        commit.label === undefined
+          ? this.waivers.find((candidate) => hash.startsWith(candidate.sha))
+          : undefined;
+
+      if (waiver === undefined) {
+        included.push(commit);
+      } else if (waiver.expires !== undefined && waiver.expires < this.today) {
+        debug(`The waiver of commit ${commit.hash} has expired.`);
+        included.push(commit);
+        expired.push({ commit, waiver });
+      } else {
+        debug(`Waiving commit ${commit.hash}: ${waiver.reason}.`);
+        waived.push({ commit, waiver });
+      }
+    }
+
+    return { commits: included, waived, expired };
+  }
+}
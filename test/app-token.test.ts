@@ -0,0 +1,124 @@
+import nock from 'nock';
+import axios from 'axios';
+import { createPublicKey, generateKeyPairSync, verify } from 'node:crypto';
+import { createAppJwt, getInstallationToken } from '../src/app-token.js';
+import { buildAxiosFetch } from './fetchers/utils/nockios.js';
+
+beforeAll(() => {
+  nock.disableNetConnect();
+});
+
+afterEach(() => {
+  nock.cleanAll();
+});
+
+afterAll(() => {
+  nock.enableNetConnect();
+});
+
+const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const pem = privateKey.export({ type: 'pkcs1', format: 'pem' }).toString();
+
+describe('createAppJwt', () => {
+  it('should sign a short-lived token issued by the app with RS256', () => {
+    const now = Date.UTC(2024, 0, 1);
+    const [header, payload, signature] = createAppJwt('12345', pem, now).split(
+      '.',
+    );
+
+    expect(JSON.parse(Buffer.from(header, 'base64url').toString())).toEqual({
+      alg: 'RS256',
+      typ: 'JWT',
+    });
+    expect(JSON.parse(Buffer.from(payload, 'base64url').toString())).toEqual({
+      iat: now / 1000 - 60,
+      exp: now / 1000 + 480,
+      iss: '12345',
+    });
+    expect(
+      verify(
+        'RSA-SHA256',
+        Buffer.from(`${header}.${payload}`),
+        createPublicKey(privateKey),
+        Buffer.from(signature, 'base64url'),
+      ),
+    ).toBe(true);
+  });
+
+  it('should accept a private key with escaped line breaks', () => {
+    expect(() =>
+      createAppJwt('12345', pem.trim().replace(/\n/g, '\\n')),
+    ).not.toThrow();
+  });
+
+  it('should throw an error if the private key is invalid', () => {
+    expect(() => createAppJwt('12345', 'not a key')).toThrow(
+      'Invalid value for "private-key". Expected a PEM encoded private key.',
+    );
+  });
+});
+
+describe('getInstallationToken', () => {
+  const options = {
+    baseUrl: 'https://api.github.com',
+    request: {
+      fetch: buildAxiosFetch(axios.create({})),
+    },
+  };
+
+  it('should look up the installation on the repository and mint a token', async () => {
+    nock('https://api.github.com', {
+      reqheaders: {
+        authorization: (value) => /^bearer [\w-]+\.[\w-]+\.[\w-]+$/.test(value),
+      },
+    })
+      .get('/repos/test-owner/test-repo/installation')
+      .reply(200, { id: 42 })
+      .post('/app/installations/42/access_tokens')
+      .reply(201, { token: 'ghs_installation', expires_at: '' });
+
+    const token = await getInstallationToken(
+      { appId: '12345', privateKey: pem },
+      'test-owner',
+      'test-repo',
+      options,
+    );
+
+    expect(token).toBe('ghs_installation');
+    expect(nock.isDone()).toBe(true);
+  });
+
+  it('should mint a token for the given installation', async () => {
+    nock('https://api.github.com')
+      .post('/app/installations/7/access_tokens')
+      .reply(201, { token: 'ghs_installation', expires_at: '' });
+
+    const token = await getInstallationToken(
+      { appId: '12345', privateKey: pem, installationId: 7 },
+      'test-owner',
+      'test-repo',
+      options,
+    );
+
+    expect(token).toBe('ghs_installation');
+    expect(nock.isDone()).toBe(true);
+  });
+
+  it('should throw an error if the app is not installed on the repository', async () => {
+    nock('https://api.github.com')
+      .get('/repos/test-owner/test-repo/installation')
+      .reply(404, { message: 'Not Found' });
+
+    await expect(
+      getInstallationToken(
+        { appId: '12345', privateKey: pem },
+        'test-owner',
+        'test-repo',
+        options,
+      ),
+    ).rejects.toThrow(
+      'GitHub App 12345 is not installed on test-owner/test-repo: Not Found',
+    );
+    expect(nock.isDone()).toBe(true);
+  });
+});
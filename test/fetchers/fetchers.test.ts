@@ -3,6 +3,14 @@ import getCommitFetcher from '../../src/fetchers/index.js';
 import { MergeGroupCommitFetcher } from '../../src/fetchers/merge-group.js';
 import { PullRequestCommitFetcher } from '../../src/fetchers/pull-request.js';
 import { PushEventCommitFetcher } from '../../src/fetchers/push-event.js';
+import { LocalGitCommitFetcher } from '../../src/fetchers/local-git.js';
+import { RangeCommitFetcher } from '../../src/fetchers/range.js';
+import { PullRequestTitleCommitFetcher } from '../../src/fetchers/pull-request-title.js';
+import { SquashMessageCommitFetcher } from '../../src/fetchers/squash-message.js';
+import { TagCommitFetcher } from '../../src/fetchers/tag.js';
+import { WorkflowRunCommitFetcher } from '../../src/fetchers/workflow-run.js';
+import { GraphQLPullRequestCommitFetcher } from '../../src/fetchers/graphql-pull-request.js';
+import { GraphQLRangeCommitFetcher } from '../../src/fetchers/graphql-range.js';
 
 describe('getCommitFetcher', () => {
   const testCases = [
@@ -30,6 +38,112 @@ describe('getCommitFetcher', () => {
       description:
         'should return a new MergeGroupCommitFetcher instance for merge_group events',
     },
+    {
+      eventName: 'push',
+      source: 'git' as const,
+      expectedClass: LocalGitCommitFetcher,
+      description:
+        'should return a new LocalGitCommitFetcher instance for push events read from git',
+    },
+    {
+      eventName: 'pull_request',
+      source: 'git' as const,
+      expectedClass: LocalGitCommitFetcher,
+      description:
+        'should return a new LocalGitCommitFetcher instance for pull_request events read from git',
+    },
+    {
+      eventName: 'merge_group',
+      source: 'git' as const,
+      expectedClass: LocalGitCommitFetcher,
+      description:
+        'should return a new LocalGitCommitFetcher instance for merge_group events read from git',
+    },
+    {
+      eventName: 'pull_request',
+      pullRequestTitle: 'only' as const,
+      expectedClass: PullRequestTitleCommitFetcher,
+      description:
+        'should return a new PullRequestTitleCommitFetcher instance for pull_request events linting the title',
+    },
+    {
+      eventName: 'pull_request_target',
+      pullRequestTitle: 'include' as const,
+      expectedClass: PullRequestTitleCommitFetcher,
+      description:
+        'should return a new PullRequestTitleCommitFetcher instance for pull_request_target events linting the title and commits',
+    },
+    {
+      eventName: 'pull_request',
+      squashMessage: 'only' as const,
+      expectedClass: SquashMessageCommitFetcher,
+      description:
+        'should return a new SquashMessageCommitFetcher instance for pull_request events linting the squash message',
+    },
+    {
+      eventName: 'pull_request',
+      pullRequestTitle: 'off' as const,
+      expectedClass: PullRequestCommitFetcher,
+      description:
+        'should return a new PullRequestCommitFetcher instance for pull_request events not linting the title',
+    },
+    {
+      eventName: 'pull_request',
+      source: 'graphql' as const,
+      expectedClass: GraphQLPullRequestCommitFetcher,
+      description:
+        'should return a new GraphQLPullRequestCommitFetcher instance for pull_request events with the graphql source',
+    },
+    {
+      eventName: 'push',
+      source: 'graphql' as const,
+      expectedClass: PushEventCommitFetcher,
+      description:
+        'should return a new PushEventCommitFetcher instance for push events with the graphql source',
+    },
+    {
+      eventName: 'workflow_dispatch',
+      source: 'graphql' as const,
+      range: { from: 'v1.0.0', to: 'main' },
+      expectedClass: GraphQLRangeCommitFetcher,
+      description:
+        'should return a new GraphQLRangeCommitFetcher instance for an explicit range with the graphql source',
+    },
+    {
+      eventName: 'create',
+      expectedClass: TagCommitFetcher,
+      description:
+        'should return a new TagCommitFetcher instance for create events',
+    },
+    {
+      eventName: 'workflow_run',
+      source: 'git' as const,
+      expectedClass: WorkflowRunCommitFetcher,
+      description:
+        'should return a new WorkflowRunCommitFetcher instance for workflow_run events, even with the git source',
+    },
+    {
+      eventName: 'workflow_dispatch',
+      range: { from: 'v1.0.0', to: 'main' },
+      expectedClass: RangeCommitFetcher,
+      description:
+        'should return a new RangeCommitFetcher instance for workflow_dispatch events with a range',
+    },
+    {
+      eventName: 'schedule',
+      source: 'git' as const,
+      range: { from: 'v1.0.0', to: 'main' },
+      expectedClass: LocalGitCommitFetcher,
+      description:
+        'should return a new LocalGitCommitFetcher instance for schedule events with a range read from git',
+    },
+    {
+      eventName: 'push',
+      range: { from: 'v1.0.0', to: 'main' },
+      expectedClass: RangeCommitFetcher,
+      description:
+        'should prefer the RangeCommitFetcher over the event when a range is given',
+    },
     {
       eventName: 'workflow_dispatch',
       expectedClass: null,
@@ -48,13 +162,28 @@ describe('getCommitFetcher', () => {
     },
   ];
 
-  test.each(testCases)('$description', ({ eventName, expectedClass }) => {
-    const fetcher = getCommitFetcher(eventName);
+  test.each(testCases)(
+    '$description',
+    ({
+      eventName,
+      source,
+      range,
+      pullRequestTitle,
+      squashMessage,
+      expectedClass,
+    }) => {
+      const fetcher = getCommitFetcher(eventName, {
+        source,
+        range,
+        pullRequestTitle,
+        squashMessage,
+      });
 
-    if (expectedClass) {
-      expect(fetcher).toBeInstanceOf(expectedClass);
-    } else {
-      expect(fetcher).toBeNull();
-    }
-  });
+      if (expectedClass) {
+        expect(fetcher).toBeInstanceOf(expectedClass);
+      } else {
+        expect(fetcher).toBeNull();
+      }
+    },
+  );
 });
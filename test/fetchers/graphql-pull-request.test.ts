@@ -0,0 +1,191 @@
+import nock from 'nock';
+import { getOctokit } from '@actions/github';
+import axios from 'axios';
+import { GraphQLPullRequestCommitFetcher } from '../../src/fetchers/graphql-pull-request.js';
+import type { OctokitInstance } from '../../src/types.js';
+import { buildAxiosFetch } from './utils/nockios.js';
+
+beforeAll(() => {
+  nock.disableNetConnect();
+});
+
+afterEach(() => {
+  nock.cleanAll();
+});
+
+afterAll(() => {
+  nock.enableNetConnect();
+});
+
+describe('GraphQLPullRequestCommitFetcher', () => {
+  let octokit: OctokitInstance;
+  const fetcher = new GraphQLPullRequestCommitFetcher();
+
+  const commitNode = (oid: string, message: string) => ({
+    commit: {
+      oid,
+      message,
+      url: `https://github.com/test-owner/test-repo/commit/${oid}`,
+      author: {
+        name: 'Test Author',
+        email: 'author@example.com',
+        date: '2024-01-01T00:00:00Z',
+        user: { login: 'testauthor' },
+      },
+      committer: {
+        name: 'GitHub',
+        email: 'noreply@github.com',
+        user: null,
+      },
+      parents: { totalCount: 1 },
+      signature: { isValid: true, state: 'VALID' },
+    },
+  });
+
+  beforeEach(() => {
+    octokit = getOctokit('fake-token', {
+      baseUrl: 'https://api.github.com',
+      request: {
+        fetch: buildAxiosFetch(axios.create({})),
+      },
+    });
+  });
+
+  it('should page through the commits of the pull request with cursors', async () => {
+    nock('https://api.github.com')
+      .post(
+        '/graphql',
+        (body) =>
+          body.variables.number === 123 && body.variables.cursor === null,
+      )
+      .reply(200, {
+        data: {
+          repository: {
+            pullRequest: {
+              commits: {
+                pageInfo: { hasNextPage: true, endCursor: 'cursor1' },
+                nodes: [commitNode('sha1', 'feat: first commit')],
+              },
+            },
+          },
+        },
+      })
+      .post('/graphql', (body) => body.variables.cursor === 'cursor1')
+      .reply(200, {
+        data: {
+          repository: {
+            pullRequest: {
+              commits: {
+                pageInfo: { hasNextPage: false, endCursor: 'cursor2' },
+                nodes: [commitNode('sha2', 'fix: second commit')],
+              },
+            },
+          },
+        },
+      });
+
+    const commits = await fetcher.fetchCommits(
+      octokit,
+      'test-owner',
+      'test-repo',
+      { action: 'opened', number: 123 },
+    );
+
+    expect(commits).toEqual([
+      {
+        hash: 'sha1',
+        message: 'feat: first commit',
+        author: {
+          name: 'Test Author',
+          email: 'author@example.com',
+          login: 'testauthor',
+        },
+        committer: { name: 'GitHub', email: 'noreply@github.com' },
+        parentCount: 1,
+        timestamp: '2024-01-01T00:00:00Z',
+        verification: { verified: true, reason: 'valid' },
+        htmlUrl: 'https://github.com/test-owner/test-repo/commit/sha1',
+      },
+      expect.objectContaining({ hash: 'sha2', message: 'fix: second commit' }),
+    ]);
+    expect(nock.isDone()).toBe(true);
+  });
+
+  it('should fall back to comparing base and head when the pull request exceeds the commit limit', async () => {
+    nock('https://api.github.com')
+      .post('/graphql')
+      .reply(200, {
+        data: {
+          repository: {
+            pullRequest: {
+              commits: {
+                pageInfo: { hasNextPage: false, endCursor: 'cursor3' },
+                nodes: Array.from({ length: 250 }, (_, index) =>
+                  commitNode(`sha${index}`, 'feat: a commit'),
+                ),
+              },
+            },
+          },
+        },
+      })
+      .get('/repos/test-owner/test-repo/compare/baseSha...headSha')
+      .query({ per_page: '100', page: '1' })
+      .reply(200, {
+        status: 'ahead',
+        total_commits: 2,
+        commits: [
+          { sha: 'sha1', commit: { message: 'feat: first commit' } },
+          { sha: 'sha2', commit: { message: 'fix: second commit' } },
+        ],
+      });
+
+    const limitedFetcher = new GraphQLPullRequestCommitFetcher();
+    const commits = await limitedFetcher.fetchCommits(
+      octokit,
+      'test-owner',
+      'test-repo',
+      {
+        action: 'opened',
+        number: 123,
+        pull_request: {
+          commits: 300,
+          base: { sha: 'baseSha' },
+          head: { sha: 'headSha' },
+        },
+      },
+    );
+
+    expect(commits.map((commit) => commit.hash)).toEqual(['sha1', 'sha2']);
+    expect(limitedFetcher.notices).toEqual([
+      'Pull request #123 has more than 250 commits, so its commits were fetched by comparing the base and head SHAs instead.',
+    ]);
+    expect(nock.isDone()).toBe(true);
+  });
+
+  it('should throw an error if the pull request does not exist', async () => {
+    nock('https://api.github.com')
+      .post('/graphql')
+      .reply(200, { data: { repository: { pullRequest: null } } });
+
+    await expect(
+      fetcher.fetchCommits(octokit, 'test-owner', 'test-repo', {
+        action: 'opened',
+        number: 404,
+      }),
+    ).rejects.toThrow(
+      'Pull request #404 was not found in test-owner/test-repo.',
+    );
+    expect(nock.isDone()).toBe(true);
+  });
+
+  it('should return an empty array if the pull request number is missing', async () => {
+    const commits = await fetcher.fetchCommits(
+      octokit,
+      'test-owner',
+      'test-repo',
+      { action: 'opened', number: 0 },
+    );
+
+    expect(commits).toEqual([]);
+  });
+});
@@ -0,0 +1,100 @@
+import nock from 'nock';
+import { getOctokit } from '@actions/github';
+import axios from 'axios';
+import { GraphQLRangeCommitFetcher } from '../../src/fetchers/graphql-range.js';
+import type { OctokitInstance } from '../../src/types.js';
+import { buildAxiosFetch } from './utils/nockios.js';
+
+beforeAll(() => {
+  nock.disableNetConnect();
+});
+
+afterEach(() => {
+  nock.cleanAll();
+});
+
+afterAll(() => {
+  nock.enableNetConnect();
+});
+
+describe('GraphQLRangeCommitFetcher', () => {
+  let octokit: OctokitInstance;
+
+  beforeEach(() => {
+    octokit = getOctokit('fake-token', {
+      baseUrl: 'https://api.github.com',
+      request: {
+        fetch: buildAxiosFetch(axios.create({})),
+      },
+    });
+  });
+
+  it('should fetch the commits of the comparison of the refs', async () => {
+    nock('https://api.github.com')
+      .post(
+        '/graphql',
+        (body) =>
+          body.variables.base === 'v1.0.0' && body.variables.head === 'main',
+      )
+      .reply(200, {
+        data: {
+          repository: {
+            ref: {
+              compare: {
+                commits: {
+                  pageInfo: { hasNextPage: false, endCursor: null },
+                  nodes: [
+                    {
+                      oid: 'rangeCommit1',
+                      message: 'feat: since release',
+                      url: 'https://github.com/test-owner/test-repo/commit/rangeCommit1',
+                      author: null,
+                      committer: null,
+                      parents: { totalCount: 1 },
+                      signature: null,
+                    },
+                  ],
+                },
+              },
+            },
+          },
+        },
+      });
+
+    const commits = await new GraphQLRangeCommitFetcher({
+      from: 'v1.0.0',
+      to: 'main',
+    }).fetchCommits(octokit, 'test-owner', 'test-repo');
+
+    expect(commits).toEqual([
+      {
+        hash: 'rangeCommit1',
+        message: 'feat: since release',
+        parentCount: 1,
+        verification: { verified: false, reason: 'unsigned' },
+        htmlUrl: 'https://github.com/test-owner/test-repo/commit/rangeCommit1',
+      },
+    ]);
+    expect(nock.isDone()).toBe(true);
+  });
+
+  it('should fall back to the compare API if the base is not a ref', async () => {
+    nock('https://api.github.com')
+      .post('/graphql')
+      .reply(200, { data: { repository: { ref: null } } })
+      .get('/repos/test-owner/test-repo/compare/abc123...main')
+      .query({ per_page: '100', page: '1' })
+      .reply(200, {
+        total_commits: 1,
+        commits: [{ sha: 'rangeCommit1', commit: { message: 'feat: x' } }],
+      });
+
+    const commits = await new GraphQLRangeCommitFetcher({
+      from: 'abc123',
+      to: 'main',
+    }).fetchCommits(octokit, 'test-owner', 'test-repo');
+
+    expect(commits).toEqual([{ hash: 'rangeCommit1', message: 'feat: x' }]);
+    expect(nock.isDone()).toBe(true);
+  });
+});
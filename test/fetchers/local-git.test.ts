@@ -0,0 +1,282 @@
+import { execFileSync } from 'node:child_process';
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { LocalGitCommitFetcher } from '../../src/fetchers/local-git.js';
+import { withTempDir } from '../helpers/with-temp-dir.js';
+
+/**
+ * Runs a git command in the given directory with a fixed identity, so the
+ * tests do not depend on the global git configuration of the machine.
+ */
+const git = (cwd: string, ...args: string[]): string =>
+  execFileSync(
+    'git',
+    [
+      '-c',
+      'user.name=Test Author',
+      '-c',
+      'user.email=author@example.com',
+      '-c',
+      'commit.gpgsign=false',
+      ...args,
+    ],
+    { cwd, encoding: 'utf8' },
+  ).trim();
+
+/**
+ * Creates an empty commit with the given message and returns its SHA.
+ */
+const commit = (cwd: string, message: string): string => {
+  git(cwd, 'commit', '--allow-empty', '-q', '-m', message);
+  return git(cwd, 'rev-parse', 'HEAD');
+};
+
+/**
+ * The metadata git reports for the commits created by {@link commit}, all of
+ * which have a single parent within the ranges under test.
+ */
+const metadata = {
+  author: { name: 'Test Author', email: 'author@example.com' },
+  committer: { name: 'Test Author', email: 'author@example.com' },
+  parentCount: 1,
+  timestamp: expect.any(String),
+};
+
+describe('LocalGitCommitFetcher', () => {
+  it(
+    'should read the commits between the before and after SHAs of a push',
+    withTempDir(async ({ tmp }) => {
+      git(tmp, 'init', '-q');
+      const base = commit(tmp, 'chore: initial commit');
+      const first = commit(tmp, 'feat: add a feature');
+      const second = commit(tmp, 'fix: fix a bug\n\nWith a body.');
+
+      const commits = await new LocalGitCommitFetcher(tmp).fetchCommits(
+        '',
+        'test-owner',
+        'test-repo',
+        { before: base, after: second, commits: [] },
+      );
+
+      expect(commits).toEqual([
+        { hash: first, message: 'feat: add a feature', ...metadata },
+        {
+          hash: second,
+          message: 'fix: fix a bug\n\nWith a body.',
+          ...metadata,
+        },
+      ]);
+    }),
+  );
+
+  it(
+    'should read the commits between the base and head of a pull request',
+    withTempDir(async ({ tmp }) => {
+      git(tmp, 'init', '-q');
+      const base = commit(tmp, 'chore: initial commit');
+      const head = commit(tmp, 'feat: add a feature');
+
+      const commits = await new LocalGitCommitFetcher(tmp).fetchCommits(
+        '',
+        'test-owner',
+        'test-repo',
+        { pull_request: { base: { sha: base }, head: { sha: head } } },
+      );
+
+      expect(commits).toEqual([
+        { hash: head, message: 'feat: add a feature', ...metadata },
+      ]);
+    }),
+  );
+
+  it(
+    'should read the commits between the base and head of a merge group',
+    withTempDir(async ({ tmp }) => {
+      git(tmp, 'init', '-q');
+      const base = commit(tmp, 'chore: initial commit');
+      const first = commit(tmp, 'feat: first queued change');
+      const head = commit(tmp, 'feat: second queued change');
+
+      const commits = await new LocalGitCommitFetcher(tmp).fetchCommits(
+        '',
+        'test-owner',
+        'test-repo',
+        {
+          merge_group: {
+            base_sha: base,
+            head_sha: head,
+            head_commit: null as never,
+          },
+        },
+      );
+
+      expect(commits).toEqual([
+        { hash: first, message: 'feat: first queued change', ...metadata },
+        { hash: head, message: 'feat: second queued change', ...metadata },
+      ]);
+    }),
+  );
+
+  it(
+    'should read the commits of a new branch since the default branch',
+    withTempDir(async ({ tmp }) => {
+      git(tmp, 'init', '-q', '-b', 'main');
+      commit(tmp, 'chore: initial commit');
+      git(tmp, 'checkout', '-q', '-b', 'feature');
+      const first = commit(tmp, 'feat: first change');
+      const head = commit(tmp, 'feat: second change');
+
+      const commits = await new LocalGitCommitFetcher(tmp).fetchCommits(
+        '',
+        'test-owner',
+        'test-repo',
+        {
+          ref: 'refs/heads/feature',
+          before: '0000000000000000000000000000000000000000',
+          after: head,
+          commits: [],
+          repository: { default_branch: 'main' },
+        },
+      );
+
+      expect(commits).toEqual([
+        { hash: first, message: 'feat: first change', ...metadata },
+        { hash: head, message: 'feat: second change', ...metadata },
+      ]);
+    }),
+  );
+
+  it(
+    'should read the commits of a new branch since the given base ref',
+    withTempDir(async ({ tmp }) => {
+      git(tmp, 'init', '-q', '-b', 'main');
+      commit(tmp, 'chore: initial commit');
+      git(tmp, 'checkout', '-q', '-b', 'develop');
+      commit(tmp, 'feat: on develop');
+      git(tmp, 'checkout', '-q', '-b', 'feature');
+      const head = commit(tmp, 'feat: on the feature branch');
+
+      const commits = await new LocalGitCommitFetcher(
+        tmp,
+        undefined,
+        'develop',
+      ).fetchCommits('', 'test-owner', 'test-repo', {
+        ref: 'refs/heads/feature',
+        before: '0000000000000000000000000000000000000000',
+        after: head,
+        commits: [],
+        repository: { default_branch: 'main' },
+      });
+
+      expect(commits).toEqual([
+        { hash: head, message: 'feat: on the feature branch', ...metadata },
+      ]);
+    }),
+  );
+
+  it(
+    'should read the commits of an explicit range, ignoring the payload',
+    withTempDir(async ({ tmp }) => {
+      git(tmp, 'init', '-q');
+      commit(tmp, 'chore: initial commit');
+      git(tmp, 'tag', 'v1.0.0');
+      const head = commit(tmp, 'feat: since the release');
+
+      const commits = await new LocalGitCommitFetcher(tmp, {
+        from: 'v1.0.0',
+        to: 'HEAD',
+      }).fetchCommits('', 'test-owner', 'test-repo', {});
+
+      expect(commits).toEqual([
+        { hash: head, message: 'feat: since the release', ...metadata },
+      ]);
+    }),
+  );
+
+  it(
+    'should not take a ref starting with a dash for an option',
+    withTempDir(async ({ tmp }) => {
+      git(tmp, 'init', '-q');
+      commit(tmp, 'chore: initial commit');
+
+      await expect(
+        new LocalGitCommitFetcher(tmp, {
+          from: `--output=${join(tmp, 'leak')}`,
+          to: 'HEAD',
+        }).fetchCommits('', 'test-owner', 'test-repo', {}),
+      ).rejects.toThrowError(/Failed to read commits/);
+      expect(existsSync(join(tmp, 'leak..HEAD'))).toBe(false);
+    }),
+  );
+
+  it(
+    'should throw a helpful error if the range is not in the checkout',
+    withTempDir(async ({ tmp }) => {
+      git(tmp, 'init', '-q');
+      const head = commit(tmp, 'chore: initial commit');
+
+      await expect(
+        new LocalGitCommitFetcher(tmp).fetchCommits(
+          '',
+          'test-owner',
+          'test-repo',
+          {
+            before: '1111111111111111111111111111111111111111',
+            after: head,
+            commits: [],
+          },
+        ),
+      ).rejects.toThrowError(/fetch-depth: 0/);
+    }),
+  );
+
+  it(
+    'should keep the newest or oldest commits up to the depth',
+    withTempDir(async ({ tmp }) => {
+      git(tmp, 'init', '-q');
+      const base = commit(tmp, 'chore: initial commit');
+      const first = commit(tmp, 'feat: first change');
+      const second = commit(tmp, 'feat: second change');
+      const third = commit(tmp, 'feat: third change');
+      const fetcher = new LocalGitCommitFetcher(tmp);
+      const payload = { before: base, after: third, commits: [] };
+
+      const newest = await fetcher.fetchCommits(
+        '',
+        'test-owner',
+        'test-repo',
+        payload,
+        { count: 2, mode: 'newest' },
+      );
+      const oldest = await fetcher.fetchCommits(
+        '',
+        'test-owner',
+        'test-repo',
+        payload,
+        { count: 2, mode: 'oldest' },
+      );
+
+      expect(newest.map((c) => c.hash)).toEqual([second, third]);
+      expect(oldest.map((c) => c.hash)).toEqual([first, second]);
+      await expect(
+        fetcher.fetchCommits('', 'test-owner', 'test-repo', payload, {
+          count: 2,
+          mode: 'fail',
+        }),
+      ).rejects.toThrow(
+        'Found more than 2 commits, the maximum set by "commit-depth".',
+      );
+    }),
+  );
+
+  it('should return an empty array if no range can be derived', async () => {
+    const commits = await new LocalGitCommitFetcher().fetchCommits(
+      '',
+      'test-owner',
+      'test-repo',
+      {},
+    );
+
+    expect(commits).toEqual([]);
+  });
+});
@@ -33,6 +33,7 @@ describe('MergeGroupCommitFetcher', () => {
   const createTestMergeGroupPayloadSubset = (
     headSha?: string,
     message?: string,
+    baseSha: string = 'basesha123',
   ): MergeGroupEventPayloadSubset => {
     if (headSha && message) {
       return {
@@ -52,7 +53,7 @@ describe('MergeGroupCommitFetcher', () => {
           id: 1,
           head_ref: 'refs/heads/feature-branch',
           base_ref: 'refs/heads/main',
-          base_sha: 'basesha123',
+          base_sha: baseSha,
         } as ActualMergeGroupPayload,
       };
     }
@@ -68,7 +69,47 @@ describe('MergeGroupCommitFetcher', () => {
     });
   });
 
-  it('should fetch the head commit from a valid merge_group payload subset', async () => {
+  it('should fetch every commit between base_sha and head_sha', async () => {
+    nock('https://api.github.com')
+      .get(
+        '/repos/test-owner/test-repo/compare/basesha123...mergegroupheadsha123',
+      )
+      .query({ per_page: '100', page: '1' })
+      .reply(200, {
+        total_commits: 3,
+        commits: [
+          { sha: 'pr1commit', commit: { message: 'feat: first stacked PR' } },
+          { sha: 'pr2commit', commit: { message: 'fix: second stacked PR' } },
+          {
+            sha: 'mergegroupheadsha123',
+            commit: {
+              message: 'feat: Merge feature branch into main via merge queue',
+            },
+          },
+        ],
+      });
+
+    const commits = await fetcher.fetchCommits(
+      octokit,
+      'test-owner',
+      'test-repo',
+      createTestMergeGroupPayloadSubset(
+        'mergegroupheadsha123',
+        'feat: Merge feature branch into main via merge queue',
+      ),
+    );
+    expect(commits).toEqual([
+      { hash: 'pr1commit', message: 'feat: first stacked PR' },
+      { hash: 'pr2commit', message: 'fix: second stacked PR' },
+      {
+        hash: 'mergegroupheadsha123',
+        message: 'feat: Merge feature branch into main via merge queue',
+      },
+    ]);
+    expect(nock.isDone()).toBe(true);
+  });
+
+  it('should fall back to the head commit if base_sha is missing', async () => {
     const commits = await fetcher.fetchCommits(
       octokit,
       'test-owner',
@@ -76,12 +117,16 @@ describe('MergeGroupCommitFetcher', () => {
       createTestMergeGroupPayloadSubset(
         'mergegroupheadsha123',
         'feat: Merge feature branch into main via merge queue',
+        '',
       ),
     );
     expect(commits).toEqual([
       {
         hash: 'mergegroupheadsha123',
         message: 'feat: Merge feature branch into main via merge queue',
+        author: { name: 'Test Author', email: 'author@example.com' },
+        committer: { name: 'Test Committer', email: 'committer@example.com' },
+        timestamp: expect.any(String),
       },
     ]);
     expect(nock.pendingMocks().length).toBe(0);
@@ -0,0 +1,144 @@
+import nock from 'nock';
+import { getOctokit } from '@actions/github';
+import axios from 'axios';
+import { PullRequestTitleCommitFetcher } from '../../src/fetchers/pull-request-title.js';
+import { PullRequestCommitFetcher } from '../../src/fetchers/pull-request.js';
+import type { OctokitInstance } from '../../src/types.js';
+import { buildAxiosFetch } from './utils/nockios.js';
+
+beforeAll(() => {
+  nock.disableNetConnect();
+});
+
+afterEach(() => {
+  nock.cleanAll();
+});
+
+afterAll(() => {
+  nock.enableNetConnect();
+});
+
+describe('PullRequestTitleCommitFetcher', () => {
+  let octokit: OctokitInstance;
+
+  const pullRequest = {
+    base: { sha: 'baseSha' },
+    head: { sha: 'headSha' },
+    title: 'feat: add squashable feature',
+    body: 'Adds the feature.\r\n\r\nCloses #1.',
+  };
+
+  beforeEach(() => {
+    octokit = getOctokit('fake-token', {
+      baseUrl: 'https://api.github.com',
+      request: {
+        fetch: buildAxiosFetch(axios.create({})),
+      },
+    });
+  });
+
+  it('should lint only the title taken from the payload', async () => {
+    const commits = await new PullRequestTitleCommitFetcher(false).fetchCommits(
+      octokit,
+      'test-owner',
+      'test-repo',
+      {
+        action: 'edited',
+        number: 123,
+        pull_request: pullRequest,
+      },
+    );
+
+    expect(commits).toEqual([
+      {
+        hash: 'headSha',
+        label: 'PR #123',
+        message: 'feat: add squashable feature',
+      },
+    ]);
+    expect(nock.pendingMocks().length).toBe(0);
+  });
+
+  it('should append the body to the title when configured', async () => {
+    const commits = await new PullRequestTitleCommitFetcher(true).fetchCommits(
+      octokit,
+      'test-owner',
+      'test-repo',
+      {
+        action: 'opened',
+        number: 123,
+        pull_request: pullRequest,
+      },
+    );
+
+    expect(commits).toEqual([
+      {
+        hash: 'headSha',
+        label: 'PR #123',
+        message:
+          'feat: add squashable feature\n\nAdds the feature.\n\nCloses #1.',
+      },
+    ]);
+  });
+
+  it('should lint the title alongside the commits of the wrapped fetcher', async () => {
+    nock('https://api.github.com')
+      .get(`/repos/test-owner/test-repo/pulls/${123}/commits`)
+      .query(true)
+      .reply(200, [{ sha: 'sha123', commit: { message: 'feat: commit' } }]);
+
+    const commits = await new PullRequestTitleCommitFetcher(
+      false,
+      new PullRequestCommitFetcher(),
+    ).fetchCommits(octokit, 'test-owner', 'test-repo', {
+      action: 'synchronize',
+      number: 123,
+      pull_request: pullRequest,
+    });
+
+    expect(commits).toEqual([
+      {
+        hash: 'headSha',
+        label: 'PR #123',
+        message: 'feat: add squashable feature',
+      },
+      { hash: 'sha123', message: 'feat: commit' },
+    ]);
+    expect(nock.isDone()).toBe(true);
+  });
+
+  it('should fetch the pull request if the payload lacks the title', async () => {
+    nock('https://api.github.com')
+      .get(`/repos/test-owner/test-repo/pulls/${123}`)
+      .reply(200, { ...pullRequest, title: 'fix: title from the API' });
+
+    const commits = await new PullRequestTitleCommitFetcher(false).fetchCommits(
+      octokit,
+      'test-owner',
+      'test-repo',
+      {
+        action: 'opened',
+        number: 123,
+      },
+    );
+
+    expect(commits).toEqual([
+      { hash: 'headSha', label: 'PR #123', message: 'fix: title from the API' },
+    ]);
+    expect(nock.isDone()).toBe(true);
+  });
+
+  it('should return an empty array if pullNumber is not provided', async () => {
+    const commits = await new PullRequestTitleCommitFetcher(false).fetchCommits(
+      octokit,
+      'test-owner',
+      'test-repo',
+      {
+        action: 'opened',
+        number: 0,
+      },
+    );
+
+    expect(commits).toEqual([]);
+  });
+});
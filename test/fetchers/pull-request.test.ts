@@ -59,8 +59,164 @@ describe('PullRequestCommitFetcher', () => {
     );
 
     expect(commits).toEqual([
-      { hash: 'sha123', message: 'feat: Implement feature X' },
-      { hash: 'sha456', message: 'fix: Correct bug Y' },
+      { hash: 'sha123', message: 'feat: Implement feature X', htmlUrl: 'url1' },
+      { hash: 'sha456', message: 'fix: Correct bug Y', htmlUrl: 'url2' },
+    ]);
+    expect(nock.isDone()).toBe(true);
+  });
+
+  it('should capture the metadata of the commits returned by the API', async () => {
+    nock('https://api.github.com')
+      .get(`/repos/test-owner/test-repo/pulls/${123}/commits`)
+      .query(true)
+      .reply(200, [
+        {
+          sha: 'mergeSha',
+          html_url: 'https://github.com/test-owner/test-repo/commit/mergeSha',
+          commit: {
+            message: 'Merge branch main into feature',
+            author: {
+              name: 'Test Author',
+              email: 'author@example.com',
+              date: '2024-01-01T00:00:00Z',
+            },
+            committer: {
+              name: 'GitHub',
+              email: 'noreply@github.com',
+              date: '2024-01-01T00:00:01Z',
+            },
+            verification: {
+              verified: false,
+              reason: 'unsigned',
+              signature: null,
+              payload: null,
+            },
+          },
+          author: { login: 'testauthor' },
+          committer: { login: 'web-flow' },
+          parents: [{ sha: 'parent1' }, { sha: 'parent2' }],
+        },
+      ]);
+
+    const commits = await fetcher.fetchCommits(
+      octokit,
+      'test-owner',
+      'test-repo',
+      { action: 'opened', number: 123 },
+    );
+
+    expect(commits).toEqual([
+      {
+        hash: 'mergeSha',
+        message: 'Merge branch main into feature',
+        author: {
+          name: 'Test Author',
+          email: 'author@example.com',
+          login: 'testauthor',
+        },
+        committer: {
+          name: 'GitHub',
+          email: 'noreply@github.com',
+          login: 'web-flow',
+        },
+        parentCount: 2,
+        timestamp: '2024-01-01T00:00:00Z',
+        verification: { verified: false, reason: 'unsigned' },
+        htmlUrl: 'https://github.com/test-owner/test-repo/commit/mergeSha',
+      },
+    ]);
+    expect(nock.isDone()).toBe(true);
+  });
+
+  it('should follow pagination links to fetch commits beyond the first page', async () => {
+    const page = (start: number, count: number) =>
+      Array.from({ length: count }, (_, i) => ({
+        sha: `sha${start + i}`,
+        commit: { message: `feat: commit ${start + i}` },
+      }));
+
+    nock('https://api.github.com')
+      .get(`/repos/test-owner/test-repo/pulls/${123}/commits`)
+      .query({ per_page: '100' })
+      .reply(200, page(0, 100), {
+        link: `<https://api.github.com/repos/test-owner/test-repo/pulls/123/commits?per_page=100&page=2>; rel="next"`,
+      })
+      .get(`/repos/test-owner/test-repo/pulls/${123}/commits`)
+      .query({ per_page: '100', page: '2' })
+      .reply(200, page(100, 20));
+
+    const commits = await fetcher.fetchCommits(
+      octokit,
+      'test-owner',
+      'test-repo',
+      {
+        action: 'synchronize',
+        number: 123,
+      },
+    );
+
+    expect(commits).toHaveLength(120);
+    expect(commits[119]).toEqual({
+      hash: 'sha119',
+      message: 'feat: commit 119',
+    });
+    expect(nock.isDone()).toBe(true);
+  });
+
+  it('should fall back to comparing base and head when the pull request exceeds the commit limit', async () => {
+    const page = (start: number, count: number) =>
+      Array.from({ length: count }, (_, i) => ({
+        sha: `sha${start + i}`,
+        commit: { message: `feat: commit ${start + i}` },
+      }));
+    const largeFetcher = new PullRequestCommitFetcher();
+
+    nock('https://api.github.com')
+      .get(`/repos/test-owner/test-repo/pulls/${123}/commits`)
+      .query({ per_page: '100' })
+      .reply(200, page(0, 100), {
+        link: `<https://api.github.com/repos/test-owner/test-repo/pulls/123/commits?per_page=100&page=2>; rel="next"`,
+      })
+      .get(`/repos/test-owner/test-repo/pulls/${123}/commits`)
+      .query({ per_page: '100', page: '2' })
+      .reply(200, page(100, 100), {
+        link: `<https://api.github.com/repos/test-owner/test-repo/pulls/123/commits?per_page=100&page=3>; rel="next"`,
+      })
+      .get(`/repos/test-owner/test-repo/pulls/${123}/commits`)
+      .query({ per_page: '100', page: '3' })
+      .reply(200, page(200, 50))
+      .get('/repos/test-owner/test-repo/compare/baseSha...headSha')
+      .query({ per_page: '100', page: '1' })
+      .reply(200, { total_commits: 260, commits: page(0, 100) })
+      .get('/repos/test-owner/test-repo/compare/baseSha...headSha')
+      .query({ per_page: '100', page: '2' })
+      .reply(200, { total_commits: 260, commits: page(100, 100) })
+      .get('/repos/test-owner/test-repo/compare/baseSha...headSha')
+      .query({ per_page: '100', page: '3' })
+      .reply(200, { total_commits: 260, commits: page(200, 60) });
+
+    const commits = await largeFetcher.fetchCommits(
+      octokit,
+      'test-owner',
+      'test-repo',
+      {
+        action: 'synchronize',
+        number: 123,
+        pull_request: {
+          base: { sha: 'baseSha' },
+          head: { sha: 'headSha' },
+          commits: 260,
+        },
+      },
+    );
+
+    expect(commits).toHaveLength(260);
+    expect(commits[259]).toEqual({
+      hash: 'sha259',
+      message: 'feat: commit 259',
+    });
+    expect(largeFetcher.notices).toEqual([
+      'Pull request #123 has more than 250 commits, so its commits were fetched by comparing the base and head SHAs instead.',
     ]);
     expect(nock.isDone()).toBe(true);
   });
@@ -134,4 +290,290 @@ describe('PullRequestCommitFetcher', () => {
 
     expect(nock.isDone()).toBe(true);
   });
+
+  describe('in incremental mode', () => {
+    const allCommits = [
+      { sha: 'oldSha', commit: { message: 'feat: an earlier commit' } },
+      { sha: 'newSha', commit: { message: 'fix: a pushed commit' } },
+    ];
+
+    it('should only fetch the commits pushed since the previous head', async () => {
+      nock('https://api.github.com')
+        .get('/repos/test-owner/test-repo/compare/oldSha...newSha')
+        .query({ per_page: '100', page: '1' })
+        .reply(200, {
+          status: 'ahead',
+          total_commits: 1,
+          commits: [allCommits[1]],
+        });
+
+      const incrementalFetcher = new PullRequestCommitFetcher(true);
+      const commits = await incrementalFetcher.fetchCommits(
+        octokit,
+        'test-owner',
+        'test-repo',
+        {
+          action: 'synchronize',
+          number: 123,
+          before: 'oldSha',
+          after: 'newSha',
+        },
+      );
+
+      expect(commits).toEqual([
+        { hash: 'newSha', message: 'fix: a pushed commit' },
+      ]);
+      expect(incrementalFetcher.notices).toEqual([
+        'Only the 1 commits pushed to pull request #123 since oldSha were linted.',
+      ]);
+      expect(nock.isDone()).toBe(true);
+    });
+
+    it('should leave out the commits merged in from the base', async () => {
+      const mergeCommit = {
+        sha: 'mergeSha',
+        commit: { message: "Merge branch 'main' into feature" },
+        parents: [{ sha: 'oldSha' }, { sha: 'baseSha' }],
+      };
+      const baseCommit = {
+        sha: 'baseSha',
+        commit: { message: 'chore: a commit on the base branch' },
+        parents: [{ sha: 'forkPointSha' }],
+      };
+      nock('https://api.github.com')
+        .get('/repos/test-owner/test-repo/compare/oldSha...mergeSha')
+        .query(true)
+        .reply(200, {
+          status: 'ahead',
+          total_commits: 2,
+          commits: [baseCommit, mergeCommit],
+        })
+        .get('/repos/test-owner/test-repo/compare/baseSha...mergeSha')
+        .query(true)
+        .reply(200, {
+          status: 'ahead',
+          total_commits: 2,
+          commits: [allCommits[0], mergeCommit],
+        });
+
+      const incrementalFetcher = new PullRequestCommitFetcher(true);
+      const commits = await incrementalFetcher.fetchCommits(
+        octokit,
+        'test-owner',
+        'test-repo',
+        {
+          action: 'synchronize',
+          number: 123,
+          before: 'oldSha',
+          after: 'mergeSha',
+          pull_request: {
+            base: { sha: 'baseSha' },
+            head: { sha: 'mergeSha' },
+          },
+        },
+      );
+
+      expect(commits.map((commit) => commit.hash)).toEqual(['mergeSha']);
+      expect(incrementalFetcher.notices).toEqual([
+        'Only the 1 commits pushed to pull request #123 since oldSha were linted.',
+      ]);
+      expect(nock.isDone()).toBe(true);
+    });
+
+    it('should fetch every commit if merge commits were pushed without a known base', async () => {
+      nock('https://api.github.com')
+        .get('/repos/test-owner/test-repo/compare/oldSha...newSha')
+        .query(true)
+        .reply(200, {
+          status: 'ahead',
+          total_commits: 1,
+          commits: [
+            {
+              ...allCommits[1],
+              parents: [{ sha: 'oldSha' }, { sha: 'baseSha' }],
+            },
+          ],
+        })
+        .get(`/repos/test-owner/test-repo/pulls/${123}/commits`)
+        .query(true)
+        .reply(200, allCommits);
+
+      const commits = await new PullRequestCommitFetcher(true).fetchCommits(
+        octokit,
+        'test-owner',
+        'test-repo',
+        {
+          action: 'synchronize',
+          number: 123,
+          before: 'oldSha',
+          after: 'newSha',
+        },
+      );
+
+      expect(commits.map((commit) => commit.hash)).toEqual([
+        'oldSha',
+        'newSha',
+      ]);
+      expect(nock.isDone()).toBe(true);
+    });
+
+    it('should fetch every commit if the push rewrote history', async () => {
+      nock('https://api.github.com')
+        .get('/repos/test-owner/test-repo/compare/rewrittenSha...newSha')
+        .query(true)
+        .reply(200, { status: 'diverged', total_commits: 1, commits: [] })
+        .get(`/repos/test-owner/test-repo/pulls/${123}/commits`)
+        .query(true)
+        .reply(200, allCommits);
+
+      const commits = await new PullRequestCommitFetcher(true).fetchCommits(
+        octokit,
+        'test-owner',
+        'test-repo',
+        {
+          action: 'synchronize',
+          number: 123,
+          before: 'rewrittenSha',
+          after: 'newSha',
+        },
+      );
+
+      expect(commits.map((commit) => commit.hash)).toEqual([
+        'oldSha',
+        'newSha',
+      ]);
+      expect(nock.isDone()).toBe(true);
+    });
+
+    it('should fetch every commit if the previous head no longer exists', async () => {
+      nock('https://api.github.com')
+        .get('/repos/test-owner/test-repo/compare/goneSha...newSha')
+        .query(true)
+        .reply(404, { message: 'Not Found' })
+        .get(`/repos/test-owner/test-repo/pulls/${123}/commits`)
+        .query(true)
+        .reply(200, allCommits);
+
+      const commits = await new PullRequestCommitFetcher(true).fetchCommits(
+        octokit,
+        'test-owner',
+        'test-repo',
+        {
+          action: 'synchronize',
+          number: 123,
+          before: 'goneSha',
+          after: 'newSha',
+        },
+      );
+
+      expect(commits.map((commit) => commit.hash)).toEqual([
+        'oldSha',
+        'newSha',
+      ]);
+      expect(nock.isDone()).toBe(true);
+    });
+
+    it('should fetch every commit when the pull request is reopened', async () => {
+      nock('https://api.github.com')
+        .get(`/repos/test-owner/test-repo/pulls/${123}/commits`)
+        .query(true)
+        .reply(200, allCommits);
+
+      const commits = await new PullRequestCommitFetcher(true).fetchCommits(
+        octokit,
+        'test-owner',
+        'test-repo',
+        { action: 'reopened', number: 123 },
+      );
+
+      expect(commits.map((commit) => commit.hash)).toEqual([
+        'oldSha',
+        'newSha',
+      ]);
+      expect(nock.isDone()).toBe(true);
+    });
+  });
+
+  describe('with a commit depth', () => {
+    const page = (start: number, count: number) =>
+      Array.from({ length: count }, (_, i) => ({
+        sha: `sha${start + i}`,
+        commit: { message: `feat: commit ${start + i}` },
+      }));
+    const payload = {
+      action: 'synchronize' as const,
+      number: 123,
+      pull_request: {
+        base: { sha: 'baseSha' },
+        head: { sha: 'headSha' },
+        commits: 230,
+      },
+    };
+
+    it('should stop paging once the oldest commits were fetched', async () => {
+      nock('https://api.github.com')
+        .get(`/repos/test-owner/test-repo/pulls/${123}/commits`)
+        .query({ per_page: '100' })
+        .reply(200, page(0, 100), {
+          link: `<https://api.github.com/repos/test-owner/test-repo/pulls/123/commits?per_page=100&page=2>; rel="next"`,
+        });
+
+      const commits = await fetcher.fetchCommits(
+        octokit,
+        'test-owner',
+        'test-repo',
+        payload,
+        { count: 5, mode: 'oldest' },
+      );
+
+      expect(commits.map((commit) => commit.hash)).toEqual([
+        'sha0',
+        'sha1',
+        'sha2',
+        'sha3',
+        'sha4',
+      ]);
+      expect(nock.isDone()).toBe(true);
+    });
+
+    it('should only fetch the pages holding the newest commits', async () => {
+      nock('https://api.github.com')
+        .get(`/repos/test-owner/test-repo/pulls/${123}/commits`)
+        .query({ per_page: '100', page: '3' })
+        .reply(200, page(200, 30));
+
+      const commits = await fetcher.fetchCommits(
+        octokit,
+        'test-owner',
+        'test-repo',
+        payload,
+        { count: 2, mode: 'newest' },
+      );
+
+      expect(commits.map((commit) => commit.hash)).toEqual([
+        'sha228',
+        'sha229',
+      ]);
+      expect(nock.isDone()).toBe(true);
+    });
+
+    it('should fail if the pull request has more commits than the depth', async () => {
+      nock('https://api.github.com')
+        .get(`/repos/test-owner/test-repo/pulls/${123}/commits`)
+        .query({ per_page: '100' })
+        .reply(200, page(0, 100), {
+          link: `<https://api.github.com/repos/test-owner/test-repo/pulls/123/commits?per_page=100&page=2>; rel="next"`,
+        });
+
+      await expect(
+        fetcher.fetchCommits(octokit, 'test-owner', 'test-repo', payload, {
+          count: 5,
+          mode: 'fail',
+        }),
+      ).rejects.toThrow(
+        'Found more than 5 commits, the maximum set by "commit-depth".',
+      );
+      expect(nock.isDone()).toBe(true);
+    });
+  });
 });
@@ -58,8 +58,9 @@ describe('PushEventCommitFetcher', () => {
     });
   });
 
-  it('should fetch commits from payload for an initial push (expecting API call if fetcher logic changes)', async () => {
+  it('should compare a new branch against the default branch of the repository', async () => {
     const apiMockResponse = {
+      total_commits: 2,
       commits: [
         { sha: 'commit1', commit: { message: 'Initial commit on new branch' } },
         { sha: 'commit2', commit: { message: 'Second commit on new branch' } },
@@ -67,10 +68,9 @@ describe('PushEventCommitFetcher', () => {
     };
 
     nock('https://api.github.com')
-      .matchHeader('accept', /application\/vnd\.github\.v3\+json/i)
-      .get(
-        `/repos/test-owner/test-repo/compare/0000000000000000000000000000000000000000...afterShaNewBranch`,
-      )
+      .get('/repos/test-owner/test-repo')
+      .reply(200, { default_branch: 'main' })
+      .get('/repos/test-owner/test-repo/compare/main...afterShaNewBranch')
       .query(true)
       .reply(200, apiMockResponse);
 
@@ -79,12 +79,13 @@ describe('PushEventCommitFetcher', () => {
       'test-owner',
       'test-repo',
       {
+        ref: 'refs/heads/feature',
         before: '0000000000000000000000000000000000000000',
         after: 'afterShaNewBranch',
         commits: [
           createMinimalActualPushEventCommit(
-            'commit1',
-            'Initial commit on new branch',
+            'mainCommit',
+            'Commit already on the default branch',
           ),
           createMinimalActualPushEventCommit(
             'commit2',
@@ -100,6 +101,48 @@ describe('PushEventCommitFetcher', () => {
     expect(nock.isDone()).toBe(true);
   });
 
+  it('should compare a new branch against the configured base ref', async () => {
+    nock('https://api.github.com')
+      .get('/repos/test-owner/test-repo/compare/develop...afterShaNewBranch')
+      .query(true)
+      .reply(200, {
+        total_commits: 1,
+        commits: [{ sha: 'commit1', commit: { message: 'feat: new work' } }],
+      });
+
+    const commits = await new PushEventCommitFetcher(
+      undefined,
+      'develop',
+    ).fetchCommits(octokit, 'test-owner', 'test-repo', {
+      ref: 'refs/heads/feature',
+      before: '0000000000000000000000000000000000000000',
+      after: 'afterShaNewBranch',
+      commits: [],
+      repository: { default_branch: 'main' },
+    });
+    expect(commits).toEqual([{ hash: 'commit1', message: 'feat: new work' }]);
+    expect(nock.isDone()).toBe(true);
+  });
+
+  it('should use payload commits for the first push of the default branch', async () => {
+    const commits = await fetcher.fetchCommits(
+      octokit,
+      'test-owner',
+      'test-repo',
+      {
+        ref: 'refs/heads/main',
+        before: '0000000000000000000000000000000000000000',
+        after: 'firstSha',
+        commits: [
+          createMinimalActualPushEventCommit('firstSha', 'chore: initial'),
+        ],
+        repository: { default_branch: 'main' },
+      },
+    );
+    expect(commits.map((commit) => commit.hash)).toEqual(['firstSha']);
+    expect(nock.pendingMocks().length).toBe(0);
+  });
+
   it('should fetch commits using compareCommits for a subsequent push', async () => {
     nock('https://api.github.com')
       .matchHeader('accept', /application\/vnd\.github\.v3\+json/i)
@@ -129,6 +172,64 @@ describe('PushEventCommitFetcher', () => {
     expect(nock.isDone()).toBe(true);
   });
 
+  it('should keep fetching compare pages until total_commits is reached', async () => {
+    const page = (start: number, count: number) =>
+      Array.from({ length: count }, (_, i) => ({
+        sha: `push${start + i}`,
+        commit: { message: `chore: commit ${start + i}` },
+      }));
+
+    nock('https://api.github.com')
+      .get('/repos/test-owner/test-repo/compare/beforeBig...afterBig')
+      .query({ per_page: '100', page: '1' })
+      .reply(200, { total_commits: 230, commits: page(0, 100) })
+      .get('/repos/test-owner/test-repo/compare/beforeBig...afterBig')
+      .query({ per_page: '100', page: '2' })
+      .reply(200, { total_commits: 230, commits: page(100, 100) })
+      .get('/repos/test-owner/test-repo/compare/beforeBig...afterBig')
+      .query({ per_page: '100', page: '3' })
+      .reply(200, { total_commits: 230, commits: page(200, 30) });
+
+    const commits = await fetcher.fetchCommits(
+      octokit,
+      'test-owner',
+      'test-repo',
+      {
+        before: 'beforeBig',
+        after: 'afterBig',
+        commits: [],
+      },
+    );
+    expect(commits).toHaveLength(230);
+    expect(commits[229]).toEqual({
+      hash: 'push229',
+      message: 'chore: commit 229',
+    });
+    expect(nock.isDone()).toBe(true);
+  });
+
+  it('should throw if the comparison stops short of total_commits', async () => {
+    nock('https://api.github.com')
+      .get('/repos/test-owner/test-repo/compare/beforeCut...afterCut')
+      .query({ per_page: '100', page: '1' })
+      .reply(200, {
+        total_commits: 3,
+        commits: [{ sha: 'cut1', commit: { message: 'fix: one' } }],
+      })
+      .get('/repos/test-owner/test-repo/compare/beforeCut...afterCut')
+      .query({ per_page: '100', page: '2' })
+      .reply(200, { total_commits: 3, commits: [] });
+
+    await expect(
+      fetcher.fetchCommits(octokit, 'test-owner', 'test-repo', {
+        before: 'beforeCut',
+        after: 'afterCut',
+        commits: [],
+      }),
+    ).rejects.toThrowError(/returned only 1 of 3 commits/);
+    expect(nock.isDone()).toBe(true);
+  });
+
   it('should return an empty array if compareCommits returns no commits', async () => {
     nock('https://api.github.com')
       .matchHeader('accept', /application\/vnd\.github\.v3\+json/i)
@@ -189,7 +290,23 @@ describe('PushEventCommitFetcher', () => {
       },
     );
     expect(commits).toEqual([
-      { hash: 'forcePushCommit', message: 'Force pushed commit' },
+      {
+        hash: 'forcePushCommit',
+        message: 'Force pushed commit',
+        author: {
+          name: 'Test Author',
+          email: 'author@example.com',
+          login: 'testauthor',
+        },
+        committer: {
+          name: 'Test Committer',
+          email: 'committer@example.com',
+          login: 'testcommitter',
+        },
+        timestamp: expect.any(String),
+        htmlUrl:
+          'https://github.com/test-owner/test-repo/commit/forcePushCommit',
+      },
     ]);
     expect(nock.pendingMocks().length).toBe(0);
   });
@@ -208,4 +325,33 @@ describe('PushEventCommitFetcher', () => {
     expect(commits).toEqual([]);
     expect(nock.pendingMocks().length).toBe(0);
   });
+
+  it('should lint the tag message for pushes of tags', async () => {
+    nock('https://api.github.com')
+      .get('/repos/test-owner/test-repo/git/ref/tags%2Fv2.0.0')
+      .reply(200, {
+        ref: 'refs/tags/v2.0.0',
+        object: { type: 'tag', sha: 'tagSha' },
+      })
+      .get('/repos/test-owner/test-repo/git/tags/tagSha')
+      .reply(200, { sha: 'tagSha', message: 'release: 2.0.0' });
+
+    const commits = await new PushEventCommitFetcher(
+      '/tmp/tag.json',
+    ).fetchCommits(octokit, 'test-owner', 'test-repo', {
+      ref: 'refs/tags/v2.0.0',
+      before: '0000000000000000000000000000000000000000',
+      after: 'tagSha',
+      commits: [],
+    });
+    expect(commits).toEqual([
+      {
+        hash: 'tagSha',
+        label: 'tag v2.0.0',
+        message: 'release: 2.0.0',
+        configPath: '/tmp/tag.json',
+      },
+    ]);
+    expect(nock.isDone()).toBe(true);
+  });
 });
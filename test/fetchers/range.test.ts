@@ -0,0 +1,103 @@
+import nock from 'nock';
+import { getOctokit } from '@actions/github';
+import axios from 'axios';
+import { RangeCommitFetcher } from '../../src/fetchers/range.js';
+import type { OctokitInstance } from '../../src/types.js';
+import { buildAxiosFetch } from './utils/nockios.js';
+
+beforeAll(() => {
+  nock.disableNetConnect();
+});
+
+afterEach(() => {
+  nock.cleanAll();
+});
+
+afterAll(() => {
+  nock.enableNetConnect();
+});
+
+describe('RangeCommitFetcher', () => {
+  let octokit: OctokitInstance;
+
+  beforeEach(() => {
+    octokit = getOctokit('fake-token', {
+      baseUrl: 'https://api.github.com',
+      request: {
+        fetch: buildAxiosFetch(axios.create({})),
+      },
+    });
+  });
+
+  it('should fetch the commits between the from and to refs', async () => {
+    nock('https://api.github.com')
+      .get('/repos/test-owner/test-repo/compare/v1.0.0...mainSha')
+      .query({ per_page: '100', page: '1' })
+      .reply(200, {
+        total_commits: 2,
+        commits: [
+          { sha: 'rangeCommit1', commit: { message: 'feat: since release' } },
+          { sha: 'mainSha', commit: { message: 'fix: latest fix' } },
+        ],
+      });
+
+    const fetcher = new RangeCommitFetcher({ from: 'v1.0.0', to: 'mainSha' });
+    const commits = await fetcher.fetchCommits(
+      octokit,
+      'test-owner',
+      'test-repo',
+    );
+
+    expect(commits).toEqual([
+      { hash: 'rangeCommit1', message: 'feat: since release' },
+      { hash: 'mainSha', message: 'fix: latest fix' },
+    ]);
+    expect(nock.isDone()).toBe(true);
+  });
+
+  it('should throw an error if the GitHub API call fails', async () => {
+    nock('https://api.github.com')
+      .get('/repos/test-owner/test-repo/compare/missing...mainSha')
+      .query(true)
+      .reply(404, { message: 'Not Found' });
+
+    const fetcher = new RangeCommitFetcher({ from: 'missing', to: 'mainSha' });
+    await expect(
+      fetcher.fetchCommits(octokit, 'test-owner', 'test-repo'),
+    ).rejects.toThrow();
+    expect(nock.isDone()).toBe(true);
+  });
+
+  it('should skip to the pages of the comparison holding the newest commits', async () => {
+    const page = (start: number, count: number) =>
+      Array.from({ length: count }, (_, i) => ({
+        sha: `sha${start + i}`,
+        commit: { message: `feat: commit ${start + i}` },
+      }));
+
+    nock('https://api.github.com')
+      .get('/repos/test-owner/test-repo/compare/v1.0.0...mainSha')
+      .query({ per_page: '100', page: '1' })
+      .reply(200, { total_commits: 450, commits: page(0, 100) })
+      .get('/repos/test-owner/test-repo/compare/v1.0.0...mainSha')
+      .query({ per_page: '100', page: '4' })
+      .reply(200, { total_commits: 450, commits: page(300, 100) })
+      .get('/repos/test-owner/test-repo/compare/v1.0.0...mainSha')
+      .query({ per_page: '100', page: '5' })
+      .reply(200, { total_commits: 450, commits: page(400, 50) });
+
+    const fetcher = new RangeCommitFetcher({ from: 'v1.0.0', to: 'mainSha' });
+    const commits = await fetcher.fetchCommits(
+      octokit,
+      'test-owner',
+      'test-repo',
+      undefined,
+      { count: 120, mode: 'newest' },
+    );
+
+    expect(commits).toHaveLength(120);
+    expect(commits[0].hash).toBe('sha330');
+    expect(commits[119].hash).toBe('sha449');
+    expect(nock.isDone()).toBe(true);
+  });
+});
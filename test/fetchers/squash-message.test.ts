@@ -0,0 +1,143 @@
+import nock from 'nock';
+import { getOctokit } from '@actions/github';
+import axios from 'axios';
+import { SquashMessageCommitFetcher } from '../../src/fetchers/squash-message.js';
+import { PullRequestCommitFetcher } from '../../src/fetchers/pull-request.js';
+import type { OctokitInstance } from '../../src/types.js';
+import { buildAxiosFetch } from './utils/nockios.js';
+
+beforeAll(() => {
+  nock.disableNetConnect();
+});
+
+afterEach(() => {
+  nock.cleanAll();
+});
+
+afterAll(() => {
+  nock.enableNetConnect();
+});
+
+describe('SquashMessageCommitFetcher', () => {
+  let octokit: OctokitInstance;
+
+  const payload = {
+    action: 'synchronize' as const,
+    number: 42,
+    pull_request: {
+      base: { sha: 'baseSha' },
+      head: { sha: 'headSha' },
+      title: 'feat: add the squashed feature',
+      body: 'A longer description.',
+    },
+  };
+
+  const mockCommits = (
+    commits: { sha: string; commit: { message: string } }[],
+  ) =>
+    nock('https://api.github.com')
+      .get('/repos/test-owner/test-repo/pulls/42/commits')
+      .query(true)
+      .reply(200, commits);
+
+  const mockSettings = (title?: string, message?: string) =>
+    nock('https://api.github.com')
+      .get('/repos/test-owner/test-repo')
+      .reply(200, {
+        squash_merge_commit_title: title,
+        squash_merge_commit_message: message,
+      });
+
+  beforeEach(() => {
+    octokit = getOctokit('fake-token', {
+      baseUrl: 'https://api.github.com',
+      request: {
+        fetch: buildAxiosFetch(axios.create({})),
+      },
+    });
+  });
+
+  it('should use the pull request title and commit messages by default for several commits', async () => {
+    mockCommits([
+      { sha: 'sha1', commit: { message: 'feat: first' } },
+      { sha: 'sha2', commit: { message: 'fix: second\n\nWith a body.' } },
+    ]);
+    mockSettings();
+
+    const commits = await new SquashMessageCommitFetcher(
+      new PullRequestCommitFetcher(),
+      false,
+    ).fetchCommits(octokit, 'test-owner', 'test-repo', payload);
+
+    expect(commits).toEqual([
+      {
+        hash: 'headSha',
+        label: 'PR #42 (squash)',
+        message:
+          'feat: add the squashed feature (#42)\n\n* feat: first\n\n* fix: second\n\nWith a body.',
+      },
+    ]);
+    expect(nock.isDone()).toBe(true);
+  });
+
+  it('should use the commit message for a single commit by default', async () => {
+    mockCommits([
+      { sha: 'sha1', commit: { message: 'fix: only commit\n\nDetails.' } },
+    ]);
+    mockSettings('COMMIT_OR_PR_TITLE', 'COMMIT_MESSAGES');
+
+    const commits = await new SquashMessageCommitFetcher(
+      new PullRequestCommitFetcher(),
+      true,
+    ).fetchCommits(octokit, 'test-owner', 'test-repo', payload);
+
+    expect(commits).toEqual([
+      {
+        hash: 'headSha',
+        label: 'PR #42 (squash)',
+        message: 'fix: only commit (#42)\n\nDetails.',
+      },
+      { hash: 'sha1', message: 'fix: only commit\n\nDetails.' },
+    ]);
+    expect(nock.isDone()).toBe(true);
+  });
+
+  it('should use the pull request title and body when configured', async () => {
+    mockCommits([{ sha: 'sha1', commit: { message: 'wip' } }]);
+    mockSettings('PR_TITLE', 'PR_BODY');
+
+    const commits = await new SquashMessageCommitFetcher(
+      new PullRequestCommitFetcher(),
+      false,
+    ).fetchCommits(octokit, 'test-owner', 'test-repo', payload);
+
+    expect(commits).toEqual([
+      {
+        hash: 'headSha',
+        label: 'PR #42 (squash)',
+        message:
+          'feat: add the squashed feature (#42)\n\nA longer description.',
+      },
+    ]);
+    expect(nock.isDone()).toBe(true);
+  });
+
+  it('should leave the body empty when configured as blank', async () => {
+    mockCommits([{ sha: 'sha1', commit: { message: 'wip' } }]);
+    mockSettings('PR_TITLE', 'BLANK');
+
+    const commits = await new SquashMessageCommitFetcher(
+      new PullRequestCommitFetcher(),
+      false,
+    ).fetchCommits(octokit, 'test-owner', 'test-repo', payload);
+
+    expect(commits).toEqual([
+      {
+        hash: 'headSha',
+        label: 'PR #42 (squash)',
+        message: 'feat: add the squashed feature (#42)',
+      },
+    ]);
+    expect(nock.isDone()).toBe(true);
+  });
+});
@@ -0,0 +1,141 @@
+import nock from 'nock';
+import { getOctokit } from '@actions/github';
+import axios from 'axios';
+import { TagCommitFetcher } from '../../src/fetchers/tag.js';
+import type { OctokitInstance } from '../../src/types.js';
+import { buildAxiosFetch } from './utils/nockios.js';
+
+beforeAll(() => {
+  nock.disableNetConnect();
+});
+
+afterEach(() => {
+  nock.cleanAll();
+});
+
+afterAll(() => {
+  nock.enableNetConnect();
+});
+
+describe('TagCommitFetcher', () => {
+  let octokit: OctokitInstance;
+
+  beforeEach(() => {
+    octokit = getOctokit('fake-token', {
+      baseUrl: 'https://api.github.com',
+      request: {
+        fetch: buildAxiosFetch(axios.create({})),
+      },
+    });
+  });
+
+  const mockAnnotatedTag = (name: string) =>
+    nock('https://api.github.com')
+      .get(`/repos/test-owner/test-repo/git/ref/tags%2F${name}`)
+      .reply(200, {
+        ref: `refs/tags/${name}`,
+        object: { type: 'tag', sha: 'tagObjectSha' },
+      })
+      .get('/repos/test-owner/test-repo/git/tags/tagObjectSha')
+      .reply(200, {
+        sha: 'tagObjectSha',
+        tag: name,
+        message: 'release: version 1.0.0\n\nRelease notes.\n',
+      });
+
+  it('should fetch the message of an annotated tag from a create event', async () => {
+    mockAnnotatedTag('v1.0.0');
+
+    const commits = await new TagCommitFetcher('/tmp/tag.json').fetchCommits(
+      octokit,
+      'test-owner',
+      'test-repo',
+      { ref: 'v1.0.0', ref_type: 'tag' },
+    );
+
+    expect(commits).toEqual([
+      {
+        hash: 'tagObjectSha',
+        label: 'tag v1.0.0',
+        message: 'release: version 1.0.0\n\nRelease notes.',
+        configPath: '/tmp/tag.json',
+      },
+    ]);
+    expect(nock.isDone()).toBe(true);
+  });
+
+  it('should fetch the message of an annotated tag from a push event', async () => {
+    mockAnnotatedTag('v1.0.0');
+
+    const commits = await new TagCommitFetcher().fetchCommits(
+      octokit,
+      'test-owner',
+      'test-repo',
+      { ref: 'refs/tags/v1.0.0' },
+    );
+
+    expect(commits).toEqual([
+      {
+        hash: 'tagObjectSha',
+        label: 'tag v1.0.0',
+        message: 'release: version 1.0.0\n\nRelease notes.',
+      },
+    ]);
+    expect(nock.isDone()).toBe(true);
+  });
+
+  it('should return an empty array for a lightweight tag', async () => {
+    nock('https://api.github.com')
+      .get('/repos/test-owner/test-repo/git/ref/tags%2Flight')
+      .reply(200, {
+        ref: 'refs/tags/light',
+        object: { type: 'commit', sha: 'commitSha' },
+      });
+
+    const fetcher = new TagCommitFetcher();
+    const commits = await fetcher.fetchCommits(
+      octokit,
+      'test-owner',
+      'test-repo',
+      { ref: 'refs/tags/light' },
+    );
+
+    expect(commits).toEqual([]);
+    expect(fetcher.nothingToLint).toBe(
+      'Tag light is a lightweight tag without a message to lint.',
+    );
+    expect(nock.isDone()).toBe(true);
+  });
+
+  it('should return an empty array for a deleted tag or a branch', async () => {
+    const fetcher = new TagCommitFetcher();
+
+    expect(
+      await fetcher.fetchCommits(octokit, 'test-owner', 'test-repo', {
+        ref: 'refs/tags/v1.0.0',
+        deleted: true,
+      }),
+    ).toEqual([]);
+    expect(
+      await fetcher.fetchCommits(octokit, 'test-owner', 'test-repo', {
+        ref: 'feature',
+        ref_type: 'branch',
+      }),
+    ).toEqual([]);
+    expect(fetcher.nothingToLint).toBe(
+      'Ref feature is not a tag; nothing to lint.',
+    );
+    expect(nock.pendingMocks().length).toBe(0);
+  });
+
+  it('should fail with an explicit error without a token', async () => {
+    await expect(
+      new TagCommitFetcher().fetchCommits('', 'test-owner', 'test-repo', {
+        ref: 'v1.0.0',
+        ref_type: 'tag',
+      }),
+    ).rejects.toThrow(
+      'Linting tag v1.0.0 requires a "github-token" or "app-id" input, as tag messages are read through the API.',
+    );
+  });
+});
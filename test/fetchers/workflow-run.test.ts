@@ -0,0 +1,196 @@
+import nock from 'nock';
+import { getOctokit } from '@actions/github';
+import axios from 'axios';
+import { WorkflowRunCommitFetcher } from '../../src/fetchers/workflow-run.js';
+import { PullRequestCommitFetcher } from '../../src/fetchers/pull-request.js';
+import type { OctokitInstance } from '../../src/types.js';
+import { buildAxiosFetch } from './utils/nockios.js';
+
+beforeAll(() => {
+  nock.disableNetConnect();
+});
+
+afterEach(() => {
+  nock.cleanAll();
+});
+
+afterAll(() => {
+  nock.enableNetConnect();
+});
+
+describe('WorkflowRunCommitFetcher', () => {
+  let octokit: OctokitInstance;
+  const fetcher = new WorkflowRunCommitFetcher(new PullRequestCommitFetcher());
+
+  const pullRequest = {
+    number: 42,
+    commits: 1,
+    title: 'feat: add a feature',
+    body: null,
+    base: { sha: 'baseSha' },
+    head: { sha: 'headSha' },
+  };
+
+  beforeEach(() => {
+    octokit = getOctokit('fake-token', {
+      baseUrl: 'https://api.github.com',
+      request: {
+        fetch: buildAxiosFetch(axios.create({})),
+      },
+    });
+  });
+
+  it('should lint the pull request listed in the workflow run', async () => {
+    nock('https://api.github.com')
+      .get('/repos/test-owner/test-repo/pulls/42')
+      .reply(200, pullRequest)
+      .get('/repos/test-owner/test-repo/pulls/42/commits')
+      .query(true)
+      .reply(200, [{ sha: 'headSha', commit: { message: 'feat: a feature' } }]);
+
+    const commits = await fetcher.fetchCommits(
+      octokit,
+      'test-owner',
+      'test-repo',
+      {
+        workflow_run: {
+          event: 'pull_request',
+          head_sha: 'headSha',
+          head_branch: 'feature',
+          pull_requests: [{ number: 42, head: { sha: 'headSha' } }],
+        },
+      },
+    );
+
+    expect(commits).toEqual([{ hash: 'headSha', message: 'feat: a feature' }]);
+    expect(nock.isDone()).toBe(true);
+  });
+
+  it('should search for the pull request if the listed one has moved on', async () => {
+    nock('https://api.github.com')
+      .get('/repos/test-owner/test-repo/pulls')
+      .query({ state: 'open', head: 'test-owner:feature' })
+      .reply(200, [{ number: 41, head: { sha: 'newerSha' } }]);
+
+    const runFetcher = new WorkflowRunCommitFetcher(
+      new PullRequestCommitFetcher(),
+    );
+    const commits = await runFetcher.fetchCommits(
+      octokit,
+      'test-owner',
+      'test-repo',
+      {
+        workflow_run: {
+          event: 'pull_request',
+          head_sha: 'headSha',
+          head_branch: 'feature',
+          head_repository: { owner: { login: 'test-owner' } },
+          pull_requests: [{ number: 41, head: { sha: 'newerSha' } }],
+        },
+      },
+    );
+
+    expect(commits).toEqual([]);
+    expect(runFetcher.nothingToLint).toBe(
+      'No open pull request found with head headSha; nothing to lint.',
+    );
+    expect(nock.isDone()).toBe(true);
+  });
+
+  it('should search for the pull request of a fork by its head', async () => {
+    nock('https://api.github.com')
+      .get('/repos/test-owner/test-repo/pulls')
+      .query({ state: 'open', head: 'fork-owner:feature' })
+      .reply(200, [
+        { number: 41, head: { sha: 'staleSha' } },
+        { number: 42, head: { sha: 'headSha' } },
+      ])
+      .get('/repos/test-owner/test-repo/pulls/42')
+      .reply(200, pullRequest)
+      .get('/repos/test-owner/test-repo/pulls/42/commits')
+      .query(true)
+      .reply(200, [{ sha: 'headSha', commit: { message: 'feat: a feature' } }]);
+
+    const commits = await fetcher.fetchCommits(
+      octokit,
+      'test-owner',
+      'test-repo',
+      {
+        workflow_run: {
+          event: 'pull_request',
+          head_sha: 'headSha',
+          head_branch: 'feature',
+          head_repository: { owner: { login: 'fork-owner' } },
+          pull_requests: [],
+        },
+      },
+    );
+
+    expect(commits).toEqual([{ hash: 'headSha', message: 'feat: a feature' }]);
+    expect(nock.isDone()).toBe(true);
+  });
+
+  it('should return an empty array if no open pull request has the head', async () => {
+    nock('https://api.github.com')
+      .get('/repos/test-owner/test-repo/pulls')
+      .query({ state: 'open', head: 'fork-owner:feature' })
+      .reply(200, [{ number: 41, head: { sha: 'staleSha' } }]);
+
+    const commits = await fetcher.fetchCommits(
+      octokit,
+      'test-owner',
+      'test-repo',
+      {
+        workflow_run: {
+          event: 'pull_request',
+          head_sha: 'headSha',
+          head_branch: 'feature',
+          head_repository: { owner: { login: 'fork-owner' } },
+          pull_requests: [],
+        },
+      },
+    );
+
+    expect(commits).toEqual([]);
+    expect(nock.isDone()).toBe(true);
+  });
+
+  it('should fail with an explicit error without a token', async () => {
+    await expect(
+      fetcher.fetchCommits('', 'test-owner', 'test-repo', {
+        workflow_run: {
+          event: 'pull_request',
+          head_sha: 'headSha',
+          head_branch: 'feature',
+          pull_requests: [{ number: 42, head: { sha: 'headSha' } }],
+        },
+      }),
+    ).rejects.toThrow(
+      'Linting the pull request behind a workflow_run event requires a "github-token" or "app-id" input, as it is read through the API.',
+    );
+  });
+
+  it('should have nothing to lint if the run was not triggered by a pull request', async () => {
+    const runFetcher = new WorkflowRunCommitFetcher(
+      new PullRequestCommitFetcher(),
+    );
+    const commits = await runFetcher.fetchCommits(
+      octokit,
+      'test-owner',
+      'test-repo',
+      {
+        workflow_run: {
+          event: 'push',
+          head_sha: 'headSha',
+          head_branch: 'main',
+          pull_requests: [],
+        },
+      },
+    );
+
+    expect(commits).toEqual([]);
+    expect(runFetcher.nothingToLint).toBe(
+      'Workflow run was triggered by push, not a pull request; nothing to lint.',
+    );
+  });
+});
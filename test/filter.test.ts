@@ -0,0 +1,102 @@
+import { CommitFilter } from '../src/filter.js';
+import type { CommitToLint } from '../src/types.js';
+
+describe('CommitFilter', () => {
+  const featureCommit: CommitToLint = {
+    hash: 'featureSha',
+    message: 'feat: add a feature',
+    author: { name: 'Jane Doe', email: 'jane@example.com', login: 'jane' },
+    parentCount: 1,
+  };
+
+  const dependabotCommit: CommitToLint = {
+    hash: 'dependabotSha',
+    message: 'Bump lodash from 4.17.20 to 4.17.21',
+    author: {
+      name: 'dependabot[bot]',
+      email: '49699333+dependabot[bot]@users.noreply.github.com',
+      login: 'dependabot[bot]',
+      type: 'Bot',
+    },
+    parentCount: 1,
+  };
+
+  const mergeCommit: CommitToLint = {
+    hash: 'mergeSha',
+    message: "Merge branch 'main' into feature",
+    author: { name: 'Jane Doe', email: 'jane@example.com', login: 'jane' },
+    parentCount: 2,
+  };
+
+  const titleCommit: CommitToLint = {
+    hash: 'headSha',
+    message: 'feat: the pull request title',
+    label: 'PR #1',
+  };
+
+  const commits = [featureCommit, dependabotCommit, mergeCommit, titleCommit];
+
+  it('should lint every commit if no criteria are given', () => {
+    const { commits: included, skipped } = new CommitFilter({}).apply(commits);
+
+    expect(included).toEqual(commits);
+    expect(skipped).toEqual([]);
+  });
+
+  it('should skip commits by bots and merge commits', () => {
+    const { commits: included, skipped } = new CommitFilter({
+      bots: true,
+      mergeCommits: true,
+    }).apply(commits);
+
+    expect(included).toEqual([featureCommit, titleCommit]);
+    expect(skipped).toEqual([
+      { commit: dependabotCommit, reason: 'authored by a bot' },
+      { commit: mergeCommit, reason: 'merge commit' },
+    ]);
+  });
+
+  it('should recognise bots by the suffix of their name without a login', () => {
+    const renovateCommit: CommitToLint = {
+      hash: 'renovateSha',
+      message: 'Update dependency jest to v30',
+      author: { name: 'renovate[bot]', email: 'bot@renovateapp.com' },
+    };
+
+    const { skipped } = new CommitFilter({ bots: true }).apply([
+      renovateCommit,
+    ]);
+
+    expect(skipped).toEqual([
+      { commit: renovateCommit, reason: 'authored by a bot' },
+    ]);
+  });
+
+  it('should skip commits by author login and email pattern', () => {
+    const { commits: included, skipped } = new CommitFilter({
+      authors: ['jane'],
+      authorEmails: [/@users\.noreply\.github\.com$/i],
+    }).apply(commits);
+
+    expect(included).toEqual([titleCommit]);
+    expect(skipped).toEqual([
+      { commit: featureCommit, reason: 'authored by @jane' },
+      {
+        commit: dependabotCommit,
+        reason: 'authored by 49699333+dependabot[bot]@users.noreply.github.com',
+      },
+      { commit: mergeCommit, reason: 'authored by @jane' },
+    ]);
+  });
+
+  it('should match author logins case insensitively', () => {
+    const { commits: included, skipped } = new CommitFilter({
+      authors: ['Jane'],
+    }).apply([featureCommit, titleCommit]);
+
+    expect(included).toEqual([titleCommit]);
+    expect(skipped).toEqual([
+      { commit: featureCommit, reason: 'authored by @jane' },
+    ]);
+  });
+});
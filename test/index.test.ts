@@ -1,9 +1,17 @@
-import { describe, expect, test } from '@jest/globals';
-import { mkdtempSync, writeFileSync } from 'node:fs';
+import { describe, expect, jest, test } from '@jest/globals';
+import { execFileSync } from 'node:child_process';
+import { mkdirSync, mkdtempSync, writeFileSync } from 'node:fs';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
 import { join } from 'node:path';
 // noinspection ES6PreferShortImport
 import { run } from '../src/index.js';
-import type { CommitToLint, ICommitFetcher } from '../src/types.js';
+import getCommitFetcher from '../src/fetchers/index.js';
+import type {
+  CommitFetcherOptions,
+  CommitToLint,
+  ICommitFetcher,
+} from '../src/types.js';
 import { withTempDir } from './helpers/with-temp-dir.js';
 import { withEnvVars } from './helpers/with-env-vars.js';
 import { tmpdir } from 'node:os';
@@ -28,7 +36,10 @@ async function runAction(
   inputs: Record<string, string>,
   extraEnv: Record<string, string | undefined> = {},
   eventPayload: unknown,
-  commitFetcherFactory: (event: string) => ICommitFetcher | null,
+  commitFetcherFactory: (
+    event: string,
+    options: CommitFetcherOptions,
+  ) => ICommitFetcher | null,
   workingDirectory: string,
 ): Promise<string | void> {
   const summaryDir = mkdtempSync(join(tmpdir(), 'test-'));
@@ -164,3 +175,303 @@ describe('Commitlint Action Integration Tests', () => {
     })();
   });
 });
+
+describe('Linting another repository', () => {
+  const config = JSON.stringify({
+    extends: ['@commitlint/config-conventional'],
+    rules: { 'type-enum': [2, 'always', ['feat']] },
+  });
+
+  test('should fetch the commits of the given repository', () => {
+    return withTempDir(async ({ tmp }) => {
+      writeFileSync(join(tmp, '.commitlintrc.json'), config);
+      const fetchCommits = jest.fn(
+        async (): Promise<CommitToLint[]> => [
+          { hash: 'other1', message: 'feat: audited' },
+        ],
+      );
+
+      await runAction(
+        {
+          'github-token': 'fake-token',
+          repository: 'other-owner/other-repo',
+          'from-ref': 'v1.0.0',
+          'to-ref': 'main',
+        },
+        {
+          GITHUB_WORKSPACE: tmp,
+          GITHUB_EVENT_NAME: 'workflow_dispatch',
+          GITHUB_REPOSITORY: 'test-owner/test-repo',
+        },
+        {},
+        () => ({ fetchCommits }),
+        tmp,
+      );
+
+      expect(fetchCommits).toHaveBeenCalledWith(
+        expect.anything(),
+        'other-owner',
+        'other-repo',
+        {},
+        undefined,
+      );
+    })();
+  });
+
+  test.each([
+    [
+      { repository: 'other-owner/other-repo' },
+      'Linting other-owner/other-repo requires a "pull-request-number" or "from-ref" input.',
+    ],
+    [
+      { repository: 'other-owner/other-repo', 'from-ref': 'v1.0.0' },
+      'The "to-ref" input is required when "repository" names another repository.',
+    ],
+    [
+      { 'from-ref': 'v1.0.0' },
+      'The "to-ref" input is required, as the SHA that triggered the workflow is unknown.',
+    ],
+    [
+      {
+        'github-token': '',
+        repository: 'other-owner/other-repo',
+        'from-ref': 'v1.0.0',
+        'to-ref': 'main',
+      },
+      'Linting other-owner/other-repo requires the API as the "commit-source", as the checkout holds another repository; give a "github-token" or "app-id" input.',
+    ],
+    [
+      { repository: 'not-a-repository' },
+      `Invalid value for "repository". Expected 'owner/name', but received 'not-a-repository'.`,
+    ],
+    [
+      { 'pull-request-number': '0' },
+      `Invalid value for "pull-request-number". Expected a positive integer, but received '0'.`,
+    ],
+  ])('should reject %j', (inputs, expectedErrorMessage) => {
+    return withTempDir(async ({ tmp }) => {
+      writeFileSync(join(tmp, '.commitlintrc.json'), config);
+
+      await expect(
+        runAction(
+          { 'github-token': 'fake-token', ...inputs },
+          {
+            GITHUB_WORKSPACE: tmp,
+            GITHUB_EVENT_NAME: 'workflow_dispatch',
+            GITHUB_REPOSITORY: 'test-owner/test-repo',
+            GITHUB_SHA: undefined,
+          },
+          {},
+          () => null,
+          tmp,
+        ),
+      ).rejects.toThrow(expectedErrorMessage);
+    })();
+  });
+});
+
+describe('Incompatible inputs', () => {
+  test.each([
+    [
+      { 'commit-source': 'graphql', incremental: 'true' },
+      `The "incremental" input requires 'api' as the "commit-source", but received 'graphql'.`,
+    ],
+    [
+      { 'commit-source': 'git', incremental: 'true' },
+      `The "incremental" input requires 'api' as the "commit-source", but received 'git'.`,
+    ],
+    [
+      { 'pull-request-title': 'only', 'squash-message': 'include' },
+      `The "squash-message" input must be 'off' when "pull-request-title" is 'only', as then only the title is linted, but received 'include'.`,
+    ],
+  ])('should reject %j', (inputs, expectedErrorMessage) => {
+    return withTempDir(async ({ tmp }) => {
+      writeFileSync(
+        join(tmp, '.commitlintrc.json'),
+        JSON.stringify({ extends: ['@commitlint/config-conventional'] }),
+      );
+
+      await expect(
+        runAction(
+          { 'github-token': 'fake-token', ...inputs },
+          {
+            GITHUB_WORKSPACE: tmp,
+            GITHUB_EVENT_NAME: 'pull_request',
+            GITHUB_REPOSITORY: 'test-owner/test-repo',
+          },
+          { action: 'synchronize', number: 1 },
+          (event, options) => getCommitFetcher(event, options),
+          tmp,
+        ),
+      ).rejects.toThrow(expectedErrorMessage);
+    })();
+  });
+});
+
+describe('Waiving commits', () => {
+  test.each([
+    ['2999-12-31', false],
+    ['2000-01-01', true],
+  ])('should honour a waiver expiring after %s', (expires, expectToThrow) => {
+    return withTempDir(async ({ tmp }) => {
+      writeFileSync(
+        join(tmp, '.commitlintrc.json'),
+        JSON.stringify({ extends: ['@commitlint/config-conventional'] }),
+      );
+      writeFileSync(
+        join(tmp, '.commitlintignore'),
+        `1a2b3c4d ${expires} Pushed during the outage\n`,
+      );
+
+      const action = () =>
+        runAction(
+          { 'github-token': 'fake-token', 'fail-on-errors': 'true' },
+          {
+            GITHUB_WORKSPACE: tmp,
+            GITHUB_EVENT_NAME: 'push',
+            GITHUB_REPOSITORY: 'test-owner/test-repo',
+          },
+          {},
+          () => ({
+            fetchCommits: async (): Promise<CommitToLint[]> => [
+              { hash: '1a2b3c4d5e6f', message: 'HOTFIX' },
+            ],
+          }),
+          tmp,
+        );
+
+      if (expectToThrow) {
+        await expect(action()).rejects.toThrow('commit messages with errors');
+      } else {
+        await expect(action()).resolves.not.toThrow();
+      }
+    })();
+  });
+});
+
+describe('Linting against package configurations', () => {
+  test('should load the configuration of a package that has a package.json', () => {
+    return withTempDir(async ({ tmp }) => {
+      const git = (...args: string[]) =>
+        execFileSync(
+          'git',
+          [
+            '-c',
+            'user.name=Test Author',
+            '-c',
+            'user.email=author@example.com',
+            '-c',
+            'commit.gpgsign=false',
+            ...args,
+          ],
+          { cwd: tmp, encoding: 'utf8' },
+        ).trim();
+      const packageDir = join(tmp, 'packages', 'api');
+      mkdirSync(packageDir, { recursive: true });
+      writeFileSync(
+        join(packageDir, 'package.json'),
+        JSON.stringify({ name: 'api' }),
+      );
+      writeFileSync(
+        join(packageDir, '.commitlintrc.json'),
+        JSON.stringify({
+          extends: ['@commitlint/config-conventional'],
+          rules: { 'scope-enum': [2, 'always', ['api']] },
+        }),
+      );
+      git('init', '-q');
+      git('add', '.');
+      git('commit', '-q', '-m', 'feat(web): add the api package');
+      const hash = git('rev-parse', 'HEAD');
+      writeFileSync(
+        join(tmp, '.commitlintrc.json'),
+        JSON.stringify({ extends: ['@commitlint/config-conventional'] }),
+      );
+
+      await expect(
+        runAction(
+          {
+            'github-token': 'fake-token',
+            'commit-source': 'git',
+            'per-package-config': 'true',
+            'fail-on-errors': 'true',
+          },
+          {
+            GITHUB_WORKSPACE: tmp,
+            GITHUB_EVENT_NAME: 'push',
+            GITHUB_REPOSITORY: 'test-owner/test-repo',
+          },
+          {},
+          () => ({
+            fetchCommits: async (): Promise<CommitToLint[]> => [
+              { hash, message: 'feat(web): add the api package' },
+            ],
+          }),
+          tmp,
+        ),
+      ).rejects.toThrow('commit messages with errors');
+    })();
+  });
+});
+
+describe('Events with nothing to lint', () => {
+  let server: Server;
+  let apiUrl: string;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      res.setHeader('content-type', 'application/json');
+      res.end(
+        JSON.stringify({
+          ref: 'refs/tags/v1.0.0',
+          object: { type: 'commit', sha: 'commitSha' },
+        }),
+      );
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test.each([
+    ['push', { ref: 'refs/tags/v1.0.0', before: '0'.repeat(40), after: 'a' }],
+    ['create', { ref: 'feature', ref_type: 'branch' }],
+    [
+      'workflow_run',
+      {
+        workflow_run: {
+          event: 'push',
+          head_sha: 'headSha',
+          head_branch: 'main',
+          pull_requests: [],
+        },
+      },
+    ],
+  ])('should pass a %s event of %j', (eventName, payload) => {
+    return withTempDir(async ({ tmp }) => {
+      writeFileSync(
+        join(tmp, '.commitlintrc.json'),
+        JSON.stringify({ extends: ['@commitlint/config-conventional'] }),
+      );
+
+      await expect(
+        runAction(
+          { 'github-token': 'fake-token', 'api-url': apiUrl },
+          {
+            GITHUB_WORKSPACE: tmp,
+            GITHUB_EVENT_NAME: eventName,
+            GITHUB_REPOSITORY: 'test-owner/test-repo',
+          },
+          payload,
+          (event, options) => getCommitFetcher(event, options),
+          tmp,
+        ),
+      ).resolves.not.toThrow();
+    })();
+  });
+});
@@ -0,0 +1,77 @@
+import nock from 'nock';
+import { getOctokit } from '@actions/github';
+import axios from 'axios';
+import { IssueResolver } from '../src/issues.js';
+import { buildAxiosFetch } from './fetchers/utils/nockios.js';
+
+beforeAll(() => {
+  nock.disableNetConnect();
+});
+
+afterEach(() => {
+  nock.cleanAll();
+});
+
+afterAll(() => {
+  nock.enableNetConnect();
+});
+
+describe('IssueResolver', () => {
+  const octokit = getOctokit('fake-token', {
+    baseUrl: 'https://api.github.com',
+    request: {
+      fetch: buildAxiosFetch(axios.create({})),
+    },
+  });
+
+  it('should look up each issue once', async () => {
+    nock('https://api.github.com')
+      .get('/repos/test-owner/test-repo/issues/1')
+      .once()
+      .reply(200, { number: 1, state: 'open' })
+      .get('/repos/test-owner/test-repo/issues/2')
+      .reply(200, { number: 2, state: 'closed' });
+
+    const resolver = new IssueResolver(octokit, 'test-owner', 'test-repo');
+
+    await expect(resolver.getIssue(1)).resolves.toEqual({
+      number: 1,
+      state: 'open',
+    });
+    await expect(resolver.getIssue(1)).resolves.toEqual({
+      number: 1,
+      state: 'open',
+    });
+    await expect(resolver.getIssue(2)).resolves.toEqual({
+      number: 2,
+      state: 'closed',
+    });
+    expect(nock.isDone()).toBe(true);
+  });
+
+  it('should resolve missing and deleted issues to null', async () => {
+    nock('https://api.github.com')
+      .get('/repos/test-owner/test-repo/issues/404')
+      .reply(404, { message: 'Not Found' })
+      .get('/repos/test-owner/test-repo/issues/410')
+      .reply(410, { message: 'This issue was deleted' });
+
+    const resolver = new IssueResolver(octokit, 'test-owner', 'test-repo');
+
+    await expect(resolver.getIssue(404)).resolves.toBeNull();
+    await expect(resolver.getIssue(410)).resolves.toBeNull();
+    expect(nock.isDone()).toBe(true);
+  });
+
+  it('should fail on other errors', async () => {
+    nock('https://api.github.com')
+      .get('/repos/test-owner/test-repo/issues/1')
+      .reply(403, { message: 'Resource not accessible by integration' });
+
+    const resolver = new IssueResolver(octokit, 'test-owner', 'test-repo');
+
+    await expect(resolver.getIssue(1)).rejects.toThrow(
+      'Resource not accessible by integration',
+    );
+  });
+});
@@ -0,0 +1,40 @@
+import { mkdtempSync, readFileSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { summary } from '@actions/core';
+import DefaultFormatter from '../../src/linter/formatter.js';
+import { Results } from '../../src/linter/result.js';
+import { withEnvVars } from '../helpers/with-env-vars.js';
+
+describe('DefaultFormatter', () => {
+  // The summary keeps the path of the file it first wrote to.
+  const summaryPath = join(mkdtempSync(join(tmpdir(), 'test-')), 'summary.md');
+
+  beforeEach(() => {
+    summary.emptyBuffer();
+    writeFileSync(summaryPath, '');
+  });
+
+  it('should write the report to the job summary', () =>
+    withEnvVars({ GITHUB_STEP_SUMMARY: summaryPath }, async () => {
+      await new Results([], '').format(new DefaultFormatter());
+
+      expect(readFileSync(summaryPath, 'utf8')).toContain(
+        '<h2>Commit Lint Report</h2>',
+      );
+    })());
+
+  it('should list each notice as an item of its own', () =>
+    withEnvVars({ GITHUB_STEP_SUMMARY: summaryPath }, async () => {
+      await new Results([], '').format(
+        new DefaultFormatter([
+          'Only the 2 commits pushed to pull request #1 were linted.',
+          'The waiver of commit abc1234 expired.',
+        ]),
+      );
+
+      expect(readFileSync(summaryPath, 'utf8')).toContain(
+        '<ul><li>ℹ️ Only the 2 commits pushed to pull request #1 were linted.</li><li>ℹ️ The waiver of commit abc1234 expired.</li></ul>',
+      );
+    })());
+});
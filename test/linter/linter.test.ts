@@ -239,4 +239,102 @@ describe('Linter', () => {
       expect(result.hasOnlyWarnings).toBe(false);
     }),
   );
+
+  it(
+    'should lint a commit against its own configuration when it names one',
+    withTempDir(async ({ tmp: projectDir }) => {
+      const configPath = createCommitlintrcJson(
+        projectDir,
+        comprehensiveConfig,
+        '.commitlintrc.json',
+      );
+      const tagConfigPath = createCommitlintrcJson(
+        projectDir,
+        {
+          rules: {
+            'type-enum': [RuleConfigSeverity.Error, 'always', ['release']],
+          },
+        },
+        'tag.commitlintrc.json',
+      );
+      const linter = new Linter(
+        [
+          { hash: 'abc1', message: 'feat: new amazing feature' },
+          {
+            hash: 'tag1',
+            label: 'tag v1.0.0',
+            message: 'release: version 1.0.0',
+            configPath: tagConfigPath,
+          },
+          {
+            hash: 'tag2',
+            label: 'tag v1.0.1',
+            message: 'feat: not a release',
+            configPath: tagConfigPath,
+          },
+        ],
+        configPath,
+        '',
+        projectDir,
+      );
+      const result = await linter.lint();
+
+      expect(result.items.map((item) => [item.hash, item.valid])).toEqual([
+        ['abc1', true],
+        ['tag1', true],
+        ['tag2', false],
+      ]);
+      expect(result.items[1].label).toBe('tag v1.0.0');
+      expect(result.errorCount).toBe(1);
+    }),
+  );
+
+  it(
+    'should lint a commit against every configuration it names',
+    withTempDir(async ({ tmp: projectDir }) => {
+      const configPath = createCommitlintrcJson(
+        projectDir,
+        comprehensiveConfig,
+        '.commitlintrc.json',
+      );
+      const scopedConfigPath = createCommitlintrcJson(
+        projectDir,
+        {
+          rules: {
+            'type-enum': [RuleConfigSeverity.Error, 'always', ['feat', 'fix']],
+            'scope-enum': [RuleConfigSeverity.Error, 'always', ['api']],
+          },
+        },
+        'api.commitlintrc.json',
+      );
+      const linter = new Linter(
+        [
+          {
+            hash: 'abc1',
+            message: 'feat(api): add an endpoint',
+            configPaths: [configPath, scopedConfigPath],
+          },
+          {
+            hash: 'abc2',
+            message: 'chore(web): tidy up',
+            configPaths: [configPath, scopedConfigPath],
+          },
+        ],
+        configPath,
+        '',
+        projectDir,
+      );
+      const result = await linter.lint();
+
+      expect(result.items[0]).toMatchObject({
+        valid: true,
+        configs: ['.commitlintrc.json', 'api.commitlintrc.json'],
+      });
+      expect(result.items[1].valid).toBe(false);
+      expect(result.items[1].errors.map((error) => error.name)).toEqual([
+        'type-enum',
+        'scope-enum',
+      ]);
+    }),
+  );
 });
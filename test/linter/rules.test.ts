@@ -0,0 +1,301 @@
+// noinspection ES6PreferShortImport
+import { Linter } from '../../src/linter/index.js';
+import { writeFileSync } from 'node:fs';
+import { join as pathJoin } from 'node:path';
+import { RuleConfigSeverity } from '@commitlint/types';
+import type { CommitToLint, IIssueResolver } from '../../src/types.js';
+import { withTempDir } from '../helpers/with-temp-dir.js';
+
+describe('GitHub rules', () => {
+  const author = { name: 'Jane Doe', email: 'jane@example.com', login: 'jane' };
+  const committer = { name: 'GitHub', email: 'noreply@github.com' };
+
+  const lint = async (dir: string, commits: CommitToLint[]) => {
+    const configPath = pathJoin(dir, '.commitlintrc.json');
+    writeFileSync(
+      configPath,
+      JSON.stringify({
+        rules: {
+          'signed-off-by-author': [RuleConfigSeverity.Error, 'always'],
+          'co-authored-by-format': [RuleConfigSeverity.Error, 'always'],
+        },
+      }),
+    );
+    const result = await new Linter(commits, configPath, '', dir).lint();
+    return result.items.map(({ hash, errors }) => ({
+      hash,
+      errors: errors.map(({ name, message }) => ({ name, message })),
+    }));
+  };
+
+  it(
+    'should accept a sign-off by the author or committer',
+    withTempDir(async ({ tmp }) => {
+      const results = await lint(tmp, [
+        {
+          hash: 'byAuthor',
+          message:
+            'feat: add a feature\n\nSigned-off-by: Jane Doe <JANE@example.com>\nCo-authored-by: John Roe <john@example.com>',
+          author,
+          committer,
+        },
+        {
+          hash: 'byCommitter',
+          message:
+            'feat: add a feature\n\nSigned-off-by: GitHub <noreply@github.com>',
+          author,
+          committer,
+        },
+      ]);
+
+      expect(results).toEqual([
+        { hash: 'byAuthor', errors: [] },
+        { hash: 'byCommitter', errors: [] },
+      ]);
+    }),
+  );
+
+  it(
+    'should reject a missing, foreign or malformed sign-off',
+    withTempDir(async ({ tmp }) => {
+      const results = await lint(tmp, [
+        { hash: 'missing', message: 'feat: add a feature', author, committer },
+        {
+          hash: 'foreign',
+          message:
+            'feat: add a feature\n\nSigned-off-by: John Roe <john@example.com>',
+          author,
+          committer,
+        },
+        {
+          hash: 'malformed',
+          message: 'feat: add a feature\n\nSigned-off-by: Jane Doe',
+          author,
+          committer,
+        },
+      ]);
+
+      const mismatch = {
+        name: 'signed-off-by-author',
+        message:
+          'message must be signed off by its author or committer, such as "Signed-off-by: Jane Doe <jane@example.com>"',
+      };
+      expect(results).toEqual([
+        { hash: 'missing', errors: [mismatch] },
+        { hash: 'foreign', errors: [mismatch] },
+        {
+          hash: 'malformed',
+          errors: [
+            {
+              name: 'signed-off-by-author',
+              message:
+                'Signed-off-by trailer must be of the form "Name <email>", but received "Jane Doe"',
+            },
+          ],
+        },
+      ]);
+    }),
+  );
+
+  it(
+    'should reject malformed or misplaced co-author trailers',
+    withTempDir(async ({ tmp }) => {
+      const signOff = 'Signed-off-by: Jane Doe <jane@example.com>';
+      const results = await lint(tmp, [
+        {
+          hash: 'malformed',
+          message: `feat: add a feature\n\nCo-authored-by: john@example.com\n${signOff}`,
+          author,
+        },
+        {
+          hash: 'misplaced',
+          message: `feat: add a feature\n\nCo-authored-by: John Roe <john@example.com>\n\nMore details.\n\n${signOff}`,
+          author,
+        },
+      ]);
+
+      expect(results).toEqual([
+        {
+          hash: 'malformed',
+          errors: [
+            {
+              name: 'co-authored-by-format',
+              message:
+                'Co-authored-by trailer must be of the form "Name <email>", but received "john@example.com"',
+            },
+          ],
+        },
+        {
+          hash: 'misplaced',
+          errors: [
+            {
+              name: 'co-authored-by-format',
+              message:
+                'Co-authored-by trailers must be placed in the last paragraph of the message',
+            },
+          ],
+        },
+      ]);
+    }),
+  );
+
+  it(
+    'should report why the signature of a commit is not verified',
+    withTempDir(async ({ tmp }) => {
+      const configPath = pathJoin(tmp, '.commitlintrc.json');
+      writeFileSync(
+        configPath,
+        JSON.stringify({
+          rules: {
+            'signature-verified': [RuleConfigSeverity.Error, 'always'],
+          },
+        }),
+      );
+      const result = await new Linter(
+        [
+          {
+            hash: 'signed',
+            message: 'feat: add a feature',
+            verification: { verified: true, reason: 'valid' },
+          },
+          {
+            hash: 'expired',
+            message: 'feat: add a feature',
+            verification: { verified: false, reason: 'expired_key' },
+          },
+          { hash: 'unknown', message: 'feat: add a feature' },
+        ],
+        configPath,
+        '',
+        tmp,
+      ).lint();
+
+      expect(
+        result.items.map(({ hash, errors }) => ({
+          hash,
+          errors: errors.map(({ message }) => message),
+        })),
+      ).toEqual([
+        { hash: 'signed', errors: [] },
+        { hash: 'expired', errors: ['signature is not verified: expired_key'] },
+        {
+          hash: 'unknown',
+          errors: ['signature unknown (source does not report verification)'],
+        },
+      ]);
+    }),
+  );
+
+  it(
+    'should only accept unverified signatures when negated',
+    withTempDir(async ({ tmp }) => {
+      const configPath = pathJoin(tmp, '.commitlintrc.json');
+      writeFileSync(
+        configPath,
+        JSON.stringify({
+          rules: {
+            'signature-verified': [RuleConfigSeverity.Error, 'never'],
+          },
+        }),
+      );
+      const result = await new Linter(
+        [
+          {
+            hash: 'signed',
+            message: 'feat: add a feature',
+            verification: { verified: true, reason: 'valid' },
+          },
+          {
+            hash: 'expired',
+            message: 'feat: add a feature',
+            verification: { verified: false, reason: 'expired_key' },
+          },
+          { hash: 'unknown', message: 'feat: add a feature' },
+        ],
+        configPath,
+        '',
+        tmp,
+      ).lint();
+
+      expect(
+        result.items.map(({ hash, errors }) => ({
+          hash,
+          errors: errors.map(({ message }) => message),
+        })),
+      ).toEqual([
+        { hash: 'signed', errors: ['signature must not be verified'] },
+        { hash: 'expired', errors: [] },
+        { hash: 'unknown', errors: [] },
+      ]);
+    }),
+  );
+
+  it(
+    'should report references to missing, closed or foreign issues',
+    withTempDir(async ({ tmp }) => {
+      const configPath = pathJoin(tmp, '.commitlintrc.json');
+      writeFileSync(
+        configPath,
+        JSON.stringify({
+          rules: { 'references-exist': [RuleConfigSeverity.Error, 'always'] },
+        }),
+      );
+      const fixtures: Record<number, 'open' | 'closed'> = {
+        1: 'open',
+        2: 'closed',
+      };
+      const issueResolver: IIssueResolver = {
+        owner: 'test-owner',
+        repo: 'test-repo',
+        getIssue: async (issueNumber) =>
+          fixtures[issueNumber]
+            ? { number: issueNumber, state: fixtures[issueNumber] }
+            : null,
+      };
+
+      const result = await new Linter(
+        [
+          { hash: 'open', message: 'fix: a bug\n\nCloses #1' },
+          { hash: 'closing', message: 'fix: a bug\n\nCloses #2' },
+          {
+            hash: 'invalid',
+            message: 'fix: a bug\n\nSee #2, #3, other-owner/other-repo#1',
+          },
+          { hash: 'headSha', message: 'fix: a bug (#3)', label: 'PR #1' },
+        ],
+        configPath,
+        '',
+        tmp,
+        issueResolver,
+      ).lint();
+
+      expect(
+        result.items.map(({ hash, errors }) => ({
+          hash,
+          errors: errors.map(({ message }) => message),
+        })),
+      ).toEqual([
+        { hash: 'open', errors: [] },
+        { hash: 'closing', errors: [] },
+        {
+          hash: 'invalid',
+          errors: [
+            'references are invalid: #2 is closed, #3 does not exist in test-owner/test-repo, other-owner/other-repo#1 must refer to an issue of test-owner/test-repo',
+          ],
+        },
+        { hash: 'headSha', errors: [] },
+      ]);
+    }),
+  );
+
+  it(
+    'should not apply to messages that are not commits',
+    withTempDir(async ({ tmp }) => {
+      const results = await lint(tmp, [
+        { hash: 'headSha', message: 'feat: the title', label: 'PR #1' },
+      ]);
+
+      expect(results).toEqual([{ hash: 'headSha', errors: [] }]);
+    }),
+  );
+});
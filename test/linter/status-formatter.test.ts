@@ -0,0 +1,94 @@
+import nock from 'nock';
+import { getOctokit } from '@actions/github';
+import axios from 'axios';
+import CommitStatusFormatter from '../../src/linter/status-formatter.js';
+import { Results } from '../../src/linter/result.js';
+import type { OctokitInstance } from '../../src/types.js';
+import { buildAxiosFetch } from '../fetchers/utils/nockios.js';
+
+beforeAll(() => {
+  nock.disableNetConnect();
+});
+
+afterEach(() => {
+  nock.cleanAll();
+});
+
+afterAll(() => {
+  nock.enableNetConnect();
+});
+
+describe('CommitStatusFormatter', () => {
+  let octokit: OctokitInstance;
+
+  const errorCommit = {
+    hash: 'headSha',
+    input: 'Fixed a bug',
+    valid: false,
+    errors: [
+      {
+        level: 2 as const,
+        valid: false,
+        name: 'type-empty',
+        message: 'Type may not be empty',
+      },
+    ],
+    warnings: [],
+  };
+
+  beforeEach(() => {
+    octokit = getOctokit('fake-token', {
+      baseUrl: 'https://api.github.com',
+      request: {
+        fetch: buildAxiosFetch(axios.create({})),
+      },
+    });
+  });
+
+  it('should create a failing status when errors fail the run', async () => {
+    nock('https://api.github.com')
+      .post('/repos/test-owner/test-repo/statuses/headSha', {
+        state: 'failure',
+        context: 'commitlint',
+        description: '1 errors and 0 warnings in 1 commit messages',
+        target_url: 'https://github.com/test-owner/test-repo/actions/runs/1',
+      })
+      .reply(201, {});
+
+    await new Results([errorCommit], '').format(
+      new CommitStatusFormatter(
+        octokit,
+        'test-owner',
+        'test-repo',
+        'headSha',
+        true,
+        false,
+        'https://github.com/test-owner/test-repo/actions/runs/1',
+      ),
+    );
+
+    expect(nock.isDone()).toBe(true);
+  });
+
+  it('should create a successful status when errors do not fail the run', async () => {
+    nock('https://api.github.com')
+      .post(
+        '/repos/test-owner/test-repo/statuses/headSha',
+        (body) => body.state === 'success',
+      )
+      .reply(201, {});
+
+    await new Results([errorCommit], '').format(
+      new CommitStatusFormatter(
+        octokit,
+        'test-owner',
+        'test-repo',
+        'headSha',
+        false,
+        false,
+      ),
+    );
+
+    expect(nock.isDone()).toBe(true);
+  });
+});
@@ -0,0 +1,272 @@
+import { jest } from '@jest/globals';
+import nock from 'nock';
+import axios from 'axios';
+import { createServer, type Server } from 'node:http';
+import { connect, type AddressInfo } from 'node:net';
+import type { Duplex } from 'node:stream';
+import { createOctokit, getConnectionOptions } from '../src/octokit.js';
+import { buildAxiosFetch } from './fetchers/utils/nockios.js';
+
+beforeAll(() => {
+  nock.disableNetConnect();
+});
+
+afterEach(() => {
+  nock.cleanAll();
+});
+
+afterAll(() => {
+  nock.enableNetConnect();
+});
+
+describe('createOctokit', () => {
+  const options = {
+    baseUrl: 'https://api.github.com',
+    request: {
+      fetch: buildAxiosFetch(axios.create({})),
+    },
+  };
+
+  it('should retry transient failures with exponential backoff', async () => {
+    nock('https://api.github.com')
+      .get('/repos/test-owner/test-repo')
+      .reply(502, { message: 'Bad Gateway' })
+      .get('/repos/test-owner/test-repo')
+      .reply(503, { message: 'Service Unavailable' })
+      .get('/repos/test-owner/test-repo')
+      .reply(200, { default_branch: 'main' });
+
+    const octokit = createOctokit('fake-token', { baseDelay: 1 }, options);
+    const { data } = await octokit.rest.repos.get({
+      owner: 'test-owner',
+      repo: 'test-repo',
+    });
+
+    expect(data.default_branch).toBe('main');
+    expect(nock.isDone()).toBe(true);
+  });
+
+  it('should honour the retry-after header of secondary rate limits', async () => {
+    nock('https://api.github.com')
+      .get('/repos/test-owner/test-repo')
+      .reply(
+        403,
+        { message: 'You have exceeded a secondary rate limit.' },
+        { 'retry-after': '0' },
+      )
+      .get('/repos/test-owner/test-repo')
+      .reply(200, { default_branch: 'main' });
+
+    const octokit = createOctokit('fake-token', {}, options);
+    const { data } = await octokit.rest.repos.get({
+      owner: 'test-owner',
+      repo: 'test-repo',
+    });
+
+    expect(data.default_branch).toBe('main');
+    expect(nock.isDone()).toBe(true);
+  });
+
+  it('should wait a minute before retrying secondary rate limits without a retry-after header', async () => {
+    nock('https://api.github.com')
+      .get('/repos/test-owner/test-repo')
+      .reply(403, { message: 'You have exceeded a secondary rate limit.' })
+      .get('/repos/test-owner/test-repo')
+      .reply(200, { default_branch: 'main' });
+    const delays: number[] = [];
+    const setTimeoutSpy = jest.spyOn(global, 'setTimeout').mockImplementation(((
+      callback: () => void,
+      delay?: number,
+    ) => {
+      delays.push(delay ?? 0);
+      callback();
+    }) as typeof setTimeout);
+
+    try {
+      const octokit = createOctokit('fake-token', {}, options);
+      const { data } = await octokit.rest.repos.get({
+        owner: 'test-owner',
+        repo: 'test-repo',
+      });
+
+      expect(data.default_branch).toBe('main');
+      expect(delays).toContain(60_000);
+      expect(nock.isDone()).toBe(true);
+    } finally {
+      setTimeoutSpy.mockRestore();
+    }
+  });
+
+  it('should fail right away if the rate limit resets after the maximum wait', async () => {
+    nock('https://api.github.com')
+      .get('/repos/test-owner/test-repo')
+      .reply(
+        403,
+        { message: 'API rate limit exceeded.' },
+        {
+          'x-ratelimit-remaining': '0',
+          'x-ratelimit-reset': String(Math.floor(Date.now() / 1000) + 3600),
+        },
+      );
+
+    const octokit = createOctokit('fake-token', { maxWait: 1000 }, options);
+
+    await expect(
+      octokit.rest.repos.get({ owner: 'test-owner', repo: 'test-repo' }),
+    ).rejects.toThrow('API rate limit exceeded.');
+    expect(nock.isDone()).toBe(true);
+  });
+
+  it('should not retry client errors', async () => {
+    nock('https://api.github.com')
+      .get('/repos/test-owner/test-repo')
+      .reply(404, { message: 'Not Found' });
+
+    const octokit = createOctokit('fake-token', { baseDelay: 1 }, options);
+
+    await expect(
+      octokit.rest.repos.get({ owner: 'test-owner', repo: 'test-repo' }),
+    ).rejects.toThrow('Not Found');
+    expect(nock.isDone()).toBe(true);
+  });
+
+  it('should not retry requests that are unsafe to repeat after server errors', async () => {
+    nock('https://api.github.com')
+      .post('/repos/test-owner/test-repo/statuses/headSha')
+      .reply(502, { message: 'Bad Gateway' });
+
+    const octokit = createOctokit('fake-token', { baseDelay: 1 }, options);
+
+    await expect(
+      octokit.rest.repos.createCommitStatus({
+        owner: 'test-owner',
+        repo: 'test-repo',
+        sha: 'headSha',
+        state: 'success',
+      }),
+    ).rejects.toThrow('Bad Gateway');
+    expect(nock.isDone()).toBe(true);
+  });
+
+  it('should retry GraphQL queries after server errors', async () => {
+    nock('https://api.github.com')
+      .post('/graphql')
+      .reply(502, { message: 'Bad Gateway' })
+      .post('/graphql')
+      .reply(200, { data: { viewer: { login: 'octocat' } } });
+
+    const octokit = createOctokit('fake-token', { baseDelay: 1 }, options);
+    const response = await octokit.graphql<{ viewer: { login: string } }>(
+      '{ viewer { login } }',
+    );
+
+    expect(response.viewer.login).toBe('octocat');
+    expect(nock.isDone()).toBe(true);
+  });
+
+  it('should give up after the maximum number of retries', async () => {
+    nock('https://api.github.com')
+      .get('/repos/test-owner/test-repo')
+      .times(3)
+      .reply(500, { message: 'Internal Server Error' });
+
+    const octokit = createOctokit(
+      'fake-token',
+      { baseDelay: 1, maxRetries: 2 },
+      options,
+    );
+
+    await expect(
+      octokit.rest.repos.get({ owner: 'test-owner', repo: 'test-repo' }),
+    ).rejects.toThrow('Internal Server Error');
+    expect(nock.isDone()).toBe(true);
+  });
+});
+
+describe('getConnectionOptions', () => {
+  let server: Server;
+  let apiUrl: string;
+  const requests: string[] = [];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      requests.push(`${req.method} ${req.url}`);
+      res.setHeader('content-type', 'application/json');
+      res.end(
+        req.url === '/api/graphql'
+          ? JSON.stringify({ data: { viewer: { login: 'octocat' } } })
+          : JSON.stringify({ default_branch: 'main' }),
+      );
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    const { port } = server.address() as AddressInfo;
+    apiUrl = `http://127.0.0.1:${port}/api/v3`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should send REST and GraphQL requests to the configured API URL', async () => {
+    const octokit = createOctokit(
+      'fake-token',
+      {},
+      getConnectionOptions({ apiUrl }),
+    );
+
+    const { data } = await octokit.rest.repos.get({
+      owner: 'test-owner',
+      repo: 'test-repo',
+    });
+    const response = await octokit.graphql<{ viewer: { login: string } }>(
+      'query { viewer { login } }',
+    );
+
+    expect(data.default_branch).toBe('main');
+    expect(response.viewer.login).toBe('octocat');
+    expect(requests).toEqual([
+      'GET /api/v3/repos/test-owner/test-repo',
+      'POST /api/graphql',
+    ]);
+  });
+
+  it('should tunnel requests through the configured proxy', async () => {
+    const tunnels: string[] = [];
+    const sockets: Duplex[] = [];
+    const proxy = createServer().on('connect', (req, socket) => {
+      tunnels.push(req.url ?? '');
+      sockets.push(socket);
+      const { port } = server.address() as AddressInfo;
+      const upstream = connect(port, '127.0.0.1', () => {
+        socket.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+        upstream.pipe(socket);
+        socket.pipe(upstream);
+      });
+    });
+    await new Promise<void>((resolve) => proxy.listen(0, '127.0.0.1', resolve));
+    const { port: proxyPort } = proxy.address() as AddressInfo;
+
+    try {
+      const octokit = createOctokit(
+        'fake-token',
+        {},
+        getConnectionOptions({
+          apiUrl,
+          proxy: `http://127.0.0.1:${proxyPort}`,
+        }),
+      );
+      const { data } = await octokit.rest.repos.get({
+        owner: 'test-owner',
+        repo: 'test-repo',
+      });
+
+      expect(data.default_branch).toBe('main');
+      expect(tunnels).toEqual([new URL(apiUrl).host]);
+    } finally {
+      sockets.forEach((socket) => socket.destroy());
+      await new Promise((resolve) => proxy.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,190 @@
+import { execFileSync } from 'node:child_process';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { cosmiconfig } from 'cosmiconfig';
+import nock from 'nock';
+import { getOctokit } from '@actions/github';
+import axios from 'axios';
+import {
+  createPackageConfigExplorer,
+  listChangedFilesViaApi,
+  listChangedFilesViaGit,
+  PackageConfigResolver,
+} from '../src/package-configs.js';
+import { withTempDir } from './helpers/with-temp-dir.js';
+import { buildAxiosFetch } from './fetchers/utils/nockios.js';
+
+beforeAll(() => {
+  nock.disableNetConnect();
+});
+
+afterEach(() => {
+  nock.cleanAll();
+});
+
+afterAll(() => {
+  nock.enableNetConnect();
+});
+
+/**
+ * Runs a git command in the given directory with a fixed identity, so the
+ * tests do not depend on the global git configuration of the machine.
+ */
+const git = (cwd: string, ...args: string[]): string =>
+  execFileSync(
+    'git',
+    [
+      '-c',
+      'user.name=Test Author',
+      '-c',
+      'user.email=author@example.com',
+      '-c',
+      'commit.gpgsign=false',
+      ...args,
+    ],
+    { cwd, encoding: 'utf8' },
+  ).trim();
+
+/**
+ * Writes a file, creating the directories above it, and returns its path.
+ */
+const write = (dir: string, file: string, content = ''): string => {
+  const filePath = join(dir, file);
+  mkdirSync(join(filePath, '..'), { recursive: true });
+  writeFileSync(filePath, content);
+  return filePath;
+};
+
+describe('PackageConfigResolver', () => {
+  it(
+    'should assign the nearest configuration of every changed file',
+    withTempDir(async ({ tmp }) => {
+      const rootConfig = write(tmp, '.commitlintrc.json', '{}');
+      const apiConfig = write(tmp, 'packages/api/.commitlintrc.json', '{}');
+      const changedFiles: Record<string, string[]> = {
+        sha1: ['packages/api/src/deep/index.ts'],
+        sha2: ['packages/api/package.json', 'packages/web/index.ts'],
+        sha3: [],
+      };
+
+      const resolver = new PackageConfigResolver(
+        cosmiconfig('commitlint'),
+        tmp,
+        rootConfig,
+        async (hash) => changedFiles[hash],
+      );
+      const commits = await resolver.resolve([
+        { hash: 'sha1', message: 'feat(api): add an endpoint' },
+        { hash: 'sha2', message: 'feat: touch both packages' },
+        { hash: 'sha3', message: 'chore: an empty commit' },
+        { hash: 'sha1', message: 'feat: a title', label: 'PR #1' },
+      ]);
+
+      expect(commits).toEqual([
+        {
+          hash: 'sha1',
+          message: 'feat(api): add an endpoint',
+          configPaths: [apiConfig],
+        },
+        {
+          hash: 'sha2',
+          message: 'feat: touch both packages',
+          configPaths: [rootConfig, apiConfig].sort(),
+        },
+        {
+          hash: 'sha3',
+          message: 'chore: an empty commit',
+          configPaths: [rootConfig],
+        },
+        { hash: 'sha1', message: 'feat: a title', label: 'PR #1' },
+      ]);
+    }),
+  );
+});
+
+describe('createPackageConfigExplorer', () => {
+  it(
+    'should find the configuration of a package without installing it',
+    withTempDir(async ({ tmp }) => {
+      const manifest = write(tmp, 'package.json', '{"name":"api"}');
+      const config = write(
+        tmp,
+        '.commitlintrc.json',
+        JSON.stringify({ extends: ['@commitlint/config-conventional'] }),
+      );
+
+      const result = await createPackageConfigExplorer().search(tmp);
+
+      expect(result?.filepath).toBe(config);
+      expect(readFileSync(manifest, 'utf8')).toBe('{"name":"api"}');
+      expect(existsSync(join(tmp, 'node_modules'))).toBe(false);
+    }),
+  );
+});
+
+describe('listChangedFilesViaGit', () => {
+  it(
+    'should list the files changed by a commit',
+    withTempDir(async ({ tmp }) => {
+      git(tmp, 'init', '-q');
+      write(tmp, 'README.md');
+      git(tmp, 'add', '.');
+      git(tmp, 'commit', '-q', '-m', 'chore: initial commit');
+      write(tmp, 'packages/api/index.ts', 'export {};');
+      write(tmp, 'packages/web/index.ts', 'export {};');
+      git(tmp, 'add', '.');
+      git(tmp, 'commit', '-q', '-m', 'feat: add packages');
+
+      const files = await listChangedFilesViaGit(tmp)(
+        git(tmp, 'rev-parse', 'HEAD'),
+      );
+
+      expect(files).toEqual(['packages/api/index.ts', 'packages/web/index.ts']);
+    }),
+  );
+
+  it(
+    'should not take a hash starting with a dash for an option',
+    withTempDir(async ({ tmp }) => {
+      git(tmp, 'init', '-q');
+      write(tmp, 'README.md');
+      git(tmp, 'add', '.');
+      git(tmp, 'commit', '-q', '-m', 'chore: initial commit');
+
+      await expect(
+        listChangedFilesViaGit(tmp)(`--output=${join(tmp, 'leak')}`),
+      ).rejects.toThrow();
+      expect(existsSync(join(tmp, 'leak'))).toBe(false);
+    }),
+  );
+});
+
+describe('listChangedFilesViaApi', () => {
+  it('should list the files changed by a commit', async () => {
+    nock('https://api.github.com')
+      .get('/repos/test-owner/test-repo/commits/sha1')
+      .query({ per_page: '100' })
+      .reply(200, {
+        sha: 'sha1',
+        files: [
+          { filename: 'packages/api/index.ts' },
+          { filename: 'README.md' },
+        ],
+      });
+
+    const octokit = getOctokit('fake-token', {
+      baseUrl: 'https://api.github.com',
+      request: {
+        fetch: buildAxiosFetch(axios.create({})),
+      },
+    });
+    const files = await listChangedFilesViaApi(
+      octokit,
+      'test-owner',
+      'test-repo',
+    )('sha1');
+
+    expect(files).toEqual(['packages/api/index.ts', 'README.md']);
+    expect(nock.isDone()).toBe(true);
+  });
+});
@@ -0,0 +1,169 @@
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { RuleConfigSeverity } from '@commitlint/types';
+import { closestScope, deriveScopes, withScopes } from '../src/scopes.js';
+import { Linter } from '../src/linter/index.js';
+import { withTempDir } from './helpers/with-temp-dir.js';
+
+/**
+ * Creates the given directories, and a package.json in each one named in
+ * `packages`, below the root.
+ */
+const layout = (
+  root: string,
+  directories: string[],
+  packages: string[] = [],
+): void => {
+  directories.forEach((directory) =>
+    mkdirSync(join(root, directory), { recursive: true }),
+  );
+  packages.forEach((directory) =>
+    writeFileSync(join(root, directory, 'package.json'), '{}'),
+  );
+};
+
+describe('deriveScopes', () => {
+  it('should not derive scopes when off', () => {
+    expect(deriveScopes('off', '/nonexistent', ['packages'])).toBeNull();
+  });
+
+  it(
+    'should derive scopes from the directories under the roots',
+    withTempDir(async ({ tmp }) => {
+      layout(tmp, [
+        'packages/web',
+        'packages/api',
+        'packages/.cache',
+        'apps/cli',
+      ]);
+
+      expect(deriveScopes('directories', tmp, ['packages', 'apps'])).toEqual([
+        'api',
+        'cli',
+        'web',
+      ]);
+    }),
+  );
+
+  it(
+    'should derive scopes from the workspaces of package.json',
+    withTempDir(async ({ tmp }) => {
+      layout(
+        tmp,
+        [
+          'packages/web',
+          'packages/api',
+          'packages/legacy',
+          'tools/nested/lint',
+          'docs',
+        ],
+        [
+          'packages/web',
+          'packages/api',
+          'packages/legacy',
+          'tools/nested/lint',
+        ],
+      );
+      writeFileSync(
+        join(tmp, 'package.json'),
+        JSON.stringify({
+          workspaces: ['packages/*', '!packages/legacy', 'tools/**', 'docs'],
+        }),
+      );
+
+      expect(deriveScopes('workspaces', tmp, [])).toEqual([
+        'api',
+        'lint',
+        'web',
+      ]);
+    }),
+  );
+
+  it(
+    'should derive scopes from the sections of CODEOWNERS',
+    withTempDir(async ({ tmp }) => {
+      layout(tmp, ['.github']);
+      writeFileSync(
+        join(tmp, '.github', 'CODEOWNERS'),
+        [
+          '* @org/maintainers',
+          '[frontend]',
+          '/web/ @org/web',
+          '^[docs][2] @org/writers',
+          '/docs/',
+        ].join('\n'),
+      );
+
+      expect(deriveScopes('codeowners', tmp, [])).toEqual(['docs', 'frontend']);
+    }),
+  );
+
+  it(
+    'should fail if no scopes are found',
+    withTempDir(async ({ tmp }) => {
+      expect(() => deriveScopes('directories', tmp, ['packages'])).toThrow(
+        'No scopes were found in the directories under packages.',
+      );
+    }),
+  );
+});
+
+describe('withScopes', () => {
+  it('should replace the list of scope-enum and keep its severity', () => {
+    expect(
+      withScopes(
+        { 'scope-enum': [RuleConfigSeverity.Warning, 'always', ['old']] },
+        ['api', 'web'],
+      ),
+    ).toEqual({
+      'scope-enum': [RuleConfigSeverity.Warning, 'always', ['api', 'web']],
+    });
+    expect(withScopes({}, ['api'])).toEqual({
+      'scope-enum': [RuleConfigSeverity.Error, 'always', ['api']],
+    });
+  });
+});
+
+describe('closestScope', () => {
+  it('should pick the scope with the fewest edits, ignoring case', () => {
+    expect(closestScope('wbe', ['api', 'web', 'worker'])).toBe('web');
+    expect(closestScope('API', ['api', 'web'])).toBe('api');
+  });
+});
+
+describe('Linter with derived scopes', () => {
+  it(
+    'should name the closest allowed scope in errors',
+    withTempDir(async ({ tmp }) => {
+      const configPath = join(tmp, '.commitlintrc.json');
+      writeFileSync(configPath, JSON.stringify({ rules: {} }));
+
+      const result = await new Linter(
+        [
+          { hash: 'valid', message: 'feat(web): add a page' },
+          { hash: 'typo', message: 'feat(wbe,api): add a page' },
+        ],
+        configPath,
+        '',
+        tmp,
+        null,
+        ['api', 'web'],
+      ).lint();
+
+      expect(
+        result.items.map(({ hash, errors }) => ({
+          hash,
+          errors: errors.map(({ message }) => message),
+        })),
+      ).toEqual([
+        { hash: 'valid', errors: [] },
+        {
+          hash: 'typo',
+          errors: [
+            'scope must be one of [api, web]; use "web" instead of "wbe"',
+          ],
+        },
+      ]);
+    }),
+  );
+});
@@ -0,0 +1,149 @@
+import { writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import {
+  CommitWaivers,
+  loadCommitWaivers,
+  parseCommitWaivers,
+} from '../src/waivers.js';
+import type { CommitToLint } from '../src/types.js';
+import { withTempDir } from './helpers/with-temp-dir.js';
+
+describe('parseCommitWaivers', () => {
+  it('should parse the SHA, expiry date and reason of each line', () => {
+    const waivers = parseCommitWaivers(
+      [
+        '# Pushed before the conventions were adopted.',
+        '1A2B3C4D Predates the commit conventions',
+        '',
+        '5e6f7a8   2025-12-31   Hotfix pushed during the outage',
+      ].join('\n'),
+      '.commitlintignore',
+    );
+
+    expect(waivers).toEqual([
+      {
+        sha: '1a2b3c4d',
+        reason: 'Predates the commit conventions',
+        expires: undefined,
+      },
+      {
+        sha: '5e6f7a8',
+        reason: 'Hotfix pushed during the outage',
+        expires: '2025-12-31',
+      },
+    ]);
+  });
+
+  it.each([
+    [
+      'abc Too short',
+      `Invalid waiver on line 1 of .commitlintignore. Expected a SHA of at least 7 hexadecimal characters, but received 'abc'.`,
+    ],
+    [
+      '1a2b3c4d 2025-02-31 Not a day',
+      `Invalid waiver on line 1 of .commitlintignore. Expected a valid expiry date, but received '2025-02-31'.`,
+    ],
+    [
+      '1a2b3c4d 2025-12-31',
+      'Invalid waiver on line 1 of .commitlintignore. Expected a reason after the SHA.',
+    ],
+  ])('should reject %j', (line, expectedErrorMessage) => {
+    expect(() => parseCommitWaivers(line, '.commitlintignore')).toThrow(
+      expectedErrorMessage,
+    );
+  });
+});
+
+describe('loadCommitWaivers', () => {
+  it(
+    'should read the waivers of the ignore file',
+    withTempDir(async ({ tmp }) => {
+      const filePath = join(tmp, '.commitlintignore');
+      writeFileSync(filePath, '1a2b3c4d Predates the commit conventions\n');
+
+      expect(loadCommitWaivers(filePath)).toEqual([
+        {
+          sha: '1a2b3c4d',
+          reason: 'Predates the commit conventions',
+          expires: undefined,
+        },
+      ]);
+    }),
+  );
+
+  it(
+    'should return no waivers if the ignore file does not exist',
+    withTempDir(async ({ tmp }) => {
+      expect(loadCommitWaivers(join(tmp, '.commitlintignore'))).toEqual([]);
+    }),
+  );
+});
+
+describe('CommitWaivers', () => {
+  const legacyCommit: CommitToLint = {
+    hash: '1a2b3c4d5e6f',
+    message: 'fixed stuff',
+  };
+
+  const hotfixCommit: CommitToLint = {
+    hash: '5e6f7a8b9c0d',
+    message: 'HOTFIX',
+  };
+
+  const featureCommit: CommitToLint = {
+    hash: '9f8e7d6c5b4a',
+    message: 'feat: add a feature',
+  };
+
+  const titleCommit: CommitToLint = {
+    hash: '1a2b3c4d5e6f',
+    message: 'the pull request title',
+    label: 'PR #1',
+  };
+
+  const legacyWaiver = {
+    sha: '1a2b3c4d',
+    reason: 'Predates the commit conventions',
+  };
+
+  const hotfixWaiver = {
+    sha: '5e6f7a8',
+    reason: 'Hotfix pushed during the outage',
+    expires: '2025-12-31',
+  };
+
+  const commits = [legacyCommit, hotfixCommit, featureCommit, titleCommit];
+
+  it('should waive the commits whose SHA starts with a waiver', () => {
+    const {
+      commits: included,
+      waived,
+      expired,
+    } = new CommitWaivers(
+      [legacyWaiver, hotfixWaiver],
+      new Date('2025-12-31T23:59:59Z'),
+    ).apply(commits);
+
+    expect(included).toEqual([featureCommit, titleCommit]);
+    expect(waived).toEqual([
+      { commit: legacyCommit, waiver: legacyWaiver },
+      { commit: hotfixCommit, waiver: hotfixWaiver },
+    ]);
+    expect(expired).toEqual([]);
+  });
+
+  it('should lint the commits again once their waiver has expired', () => {
+    const {
+      commits: included,
+      waived,
+      expired,
+    } = new CommitWaivers(
+      [legacyWaiver, hotfixWaiver],
+      new Date('2026-01-01T00:00:00Z'),
+    ).apply(commits);
+
+    expect(included).toEqual([hotfixCommit, featureCommit, titleCommit]);
+    expect(waived).toEqual([{ commit: legacyCommit, waiver: legacyWaiver }]);
+    expect(expired).toEqual([{ commit: hotfixCommit, waiver: hotfixWaiver }]);
+  });
+});